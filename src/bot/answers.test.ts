@@ -0,0 +1,61 @@
+import { assertEquals } from "https://deno.land/std@0.100.0/testing/asserts.ts";
+import {
+  buildAnswersNote,
+  getTextAddedToTemplate,
+  matchAnswersToQuestions,
+  NO_ANSWERS_NOTE,
+} from "./answers.ts";
+import { getMessages } from "../messages.ts";
+
+const questions = ["Größte Hürde?", "Was gefällt dir?", "Was fehlt noch?"];
+
+Deno.test("getTextAddedToTemplate finds answers written into the issue description", () => {
+  const template = getMessages().gitlabIssueTemplate({
+    title: "Hausaufgabe abschließen",
+    applicantName: "Sam",
+    questions,
+  });
+  const description = template.replace(
+    "  1. Größte Hürde?",
+    "  1. Größte Hürde?\n\n1. Das Parsen\n\n\n\n2. Die Tests",
+  );
+
+  assertEquals(
+    getTextAddedToTemplate(template, description),
+    "1. Das Parsen\n\n2. Die Tests",
+  );
+  assertEquals(getTextAddedToTemplate(template, template), "");
+});
+
+Deno.test("matchAnswersToQuestions assigns numbered answers to their question", () => {
+  assertEquals(
+    matchAnswersToQuestions(questions, [
+      "Hier meine Antworten:\n1. Das Parsen\n2) Die Tests",
+      "3. Mehr Tests\n4. Gibt es nicht",
+      "Danke für die Aufgabe!",
+    ]),
+    {
+      answers: [["Das Parsen"], ["Die Tests"], [
+        "Mehr Tests\n4. Gibt es nicht",
+      ]],
+      remarks: ["Hier meine Antworten:", "Danke für die Aufgabe!"],
+    },
+  );
+});
+
+Deno.test("buildAnswersNote lists every question with its answer", () => {
+  assertEquals(
+    buildAnswersNote(questions, ["1. Das Parsen\n3. Mehr Tests", "Fertig!"]),
+    [
+      "💬 Antworten aus dem Hausaufgaben-Issue:",
+      "❓ Größte Hürde?\nDas Parsen",
+      "❓ Was gefällt dir?\n(keine Antwort)",
+      "❓ Was fehlt noch?\nMehr Tests",
+      "💬 Weitere Kommentare:\nFertig!",
+    ].join("\n\n"),
+  );
+});
+
+Deno.test("buildAnswersNote says so when the candidate did not answer", () => {
+  assertEquals(buildAnswersNote(questions, []), NO_ANSWERS_NOTE);
+});
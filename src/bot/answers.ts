@@ -0,0 +1,76 @@
+export const NO_ANSWERS_NOTE =
+  "💬 Im Hausaufgaben-Issue wurden keine Antworten gefunden.";
+
+const NUMBERED_ANSWER_PATTERN = /^\s*(\d+)[.)]\s+/gm;
+
+type Answers = {
+  // Indexed like the questions
+  answers: string[][];
+  remarks: string[];
+};
+
+// Candidates answering in the issue description add lines to the text the bot created
+export function getTextAddedToTemplate(
+  template: string,
+  description: string,
+): string {
+  const templateLines = new Set(
+    template.split("\n").map((line) => line.trim()),
+  );
+
+  return description
+    .split("\n")
+    .filter((line) => line.trim() === "" || !templateLines.has(line.trim()))
+    .join("\n")
+    .replace(/\n{3,}/g, "\n\n")
+    .trim();
+}
+
+// Answers numbered like the questions ("1." or "1)") belong to that question, everything else is a remark
+export function matchAnswersToQuestions(
+  questions: string[],
+  texts: string[],
+): Answers {
+  const result: Answers = { answers: questions.map(() => []), remarks: [] };
+
+  for (const text of texts) {
+    const markers = [...text.matchAll(NUMBERED_ANSWER_PATTERN)].filter(
+      (match) => Number(match[1]) >= 1 && Number(match[1]) <= questions.length,
+    );
+    const unnumbered = text.slice(0, markers[0]?.index ?? text.length).trim();
+    if (unnumbered) {
+      result.remarks.push(unnumbered);
+    }
+
+    markers.forEach((marker, index) => {
+      const start = marker.index! + marker[0].length;
+      const end = markers[index + 1]?.index ?? text.length;
+      const answer = text.slice(start, end).trim();
+      if (answer) {
+        result.answers[Number(marker[1]) - 1].push(answer);
+      }
+    });
+  }
+
+  return result;
+}
+
+export function buildAnswersNote(questions: string[], texts: string[]): string {
+  if (texts.length === 0) {
+    return NO_ANSWERS_NOTE;
+  }
+
+  const { answers, remarks } = matchAnswersToQuestions(questions, texts);
+  const sections = questions.map((question, index) =>
+    `❓ ${question}\n${
+      answers[index].length > 0
+        ? answers[index].join("\n\n")
+        : "(keine Antwort)"
+    }`
+  );
+  if (remarks.length > 0) {
+    sections.push(`💬 Weitere Kommentare:\n${remarks.join("\n\n")}`);
+  }
+
+  return ["💬 Antworten aus dem Hausaufgaben-Issue:", ...sections].join("\n\n");
+}
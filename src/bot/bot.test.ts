@@ -0,0 +1,574 @@
+import {
+  assert,
+  assertEquals,
+  assertThrowsAsync,
+} from "https://deno.land/std@0.100.0/testing/asserts.ts";
+import { Stub, stub } from "https://deno.land/x/mock@v0.9.5/mod.ts";
+import Bot from "./bot.ts";
+import Gitlab from "../gitlab/gitlab.ts";
+import { GitlabError } from "../gitlab/GitlabError.ts";
+import { HttpError } from "../http/HttpError.ts";
+import Recruitee from "../recruitee/recruitee.ts";
+import Pipelines from "../evaluation/pipelines.ts";
+import Store from "../store/store.ts";
+import { PendingEvaluation } from "../evaluation/types.ts";
+import { Issue } from "../gitlab/types.ts";
+import {
+  PendingReview,
+  ReviewAssignment,
+  ReviewCopy,
+  SubmissionSteps,
+} from "./types.ts";
+import { Candidate, CandidateSingleLineField } from "../recruitee/types.ts";
+import { BotConfig } from "../config/types.ts";
+import { DEFAULT_WORKFLOW_CONFIG } from "../config/workflow.ts";
+import { addDaysToDate, dateToISO } from "../tools.ts";
+
+class MemoryStore implements Store {
+  private collections = new Map<string, Map<string, unknown>>();
+
+  get<T>(collection: string, key: string): Promise<T | undefined> {
+    return Promise.resolve(
+      this.collections.get(collection)?.get(key) as T | undefined,
+    );
+  }
+
+  set<T>(collection: string, key: string, value: T): Promise<void> {
+    if (!this.collections.has(collection)) {
+      this.collections.set(collection, new Map());
+    }
+    this.collections.get(collection)!.set(key, value);
+    return Promise.resolve();
+  }
+
+  delete(collection: string, key: string): Promise<void> {
+    this.collections.get(collection)?.delete(key);
+    return Promise.resolve();
+  }
+
+  values<T>(collection: string): Promise<T[]> {
+    return Promise.resolve(
+      [...(this.collections.get(collection)?.values() ?? [])] as T[],
+    );
+  }
+}
+
+function createBot(
+  gitlab: Gitlab,
+  recruitee: Recruitee,
+  store: Store = new MemoryStore(),
+  pipelines = new Pipelines("https://evaluation.example.com", "apiToken"),
+  config: BotConfig = {},
+): Bot {
+  return new Bot(
+    gitlab,
+    recruitee,
+    { signalSuccess: () => Promise.resolve() },
+    store,
+    config,
+    null,
+    pipelines,
+    false,
+  );
+}
+
+function mockCandidate(): Candidate {
+  return {
+    id: 123,
+    emails: ["candidate@example.com"],
+    name: "Candidate",
+    fields: [],
+    placements: [],
+    tags: [],
+  };
+}
+
+function mockHomeworkIssue(dueDate: string): Issue {
+  const user = { id: 1, name: "", username: "" };
+  return {
+    iid: 1,
+    title: "Hausaufgabe abschließen",
+    author: user,
+    assignee: user,
+    web_url: "https://gitlab.com/homework/homework-abc/-/issues/1",
+    due_date: dueDate,
+  };
+}
+
+// Gitlab and Recruitee of a candidate whose open homework issue is due on the given date
+function mockCandidateWithHomework(
+  dueDate: string,
+): { gitlab: Gitlab; recruitee: Recruitee } {
+  const gitlab = new Gitlab("apiToken", "templates", "homework");
+  const recruitee = new Recruitee("companyId", "apiToken");
+
+  stub(recruitee, "getProfileFieldByName", () => ({
+    values: [{ text: "https://gitlab.com/homework/homework-abc" }],
+  } as unknown as CandidateSingleLineField));
+  stub(gitlab, "getHomeworkProject", () => ({
+    id: "1",
+    name: "homework-abc",
+    web_url: "https://gitlab.com/homework/homework-abc",
+  }));
+  stub(gitlab, "getOwnUserInfo", () => ({ id: 1, name: "", username: "" }));
+  stub(gitlab, "getProjectIssues", () => [mockHomeworkIssue(dueDate)]);
+
+  return { gitlab, recruitee };
+}
+
+async function escalateOverdueHomework(
+  dueDate: string,
+  noteExists: boolean,
+): Promise<{ addNote: Stub<Recruitee>; createTask: Stub<Recruitee> }> {
+  const { gitlab, recruitee } = mockCandidateWithHomework(dueDate);
+  stub(recruitee, "noteExists", () => noteExists);
+  const addNote: Stub<Recruitee> = stub(recruitee, "addNoteToCandidate");
+  const createTask: Stub<Recruitee> = stub(recruitee, "createCandidateTask");
+
+  await createBot(gitlab, recruitee)["escalateOverdueHomework"](
+    mockCandidate(),
+  );
+
+  return { addNote, createTask };
+}
+
+Deno.test("escalateOverdueHomework leaves homework due today alone", async () => {
+  const { addNote, createTask } = await escalateOverdueHomework(
+    dateToISO(new Date()),
+    false,
+  );
+
+  assertEquals(addNote.calls.length, 0);
+  assertEquals(createTask.calls.length, 0);
+});
+
+Deno.test("escalateOverdueHomework escalates homework due yesterday", async () => {
+  const { addNote, createTask } = await escalateOverdueHomework(
+    dateToISO(addDaysToDate(new Date(), -1)),
+    false,
+  );
+
+  assertEquals(addNote.calls.length, 1);
+  assert(
+    /^⌛ Hausaufgabe überfällig/.test(addNote.calls[0].args[1]),
+  );
+  assertEquals(createTask.calls.length, 1);
+  assertEquals(
+    createTask.calls[0].args[1],
+    DEFAULT_WORKFLOW_CONFIG.overdueTaskTitle,
+  );
+});
+
+Deno.test("escalateOverdueHomework does not escalate twice", async () => {
+  const { addNote, createTask } = await escalateOverdueHomework(
+    dateToISO(addDaysToDate(new Date(), -1)),
+    true,
+  );
+
+  assertEquals(addNote.calls.length, 0);
+  assertEquals(createTask.calls.length, 0);
+});
+
+Deno.test("extendHomework completes the task before moving the due date", async () => {
+  const { gitlab, recruitee } = mockCandidateWithHomework("2021-12-24");
+  stub(recruitee, "getCandidateTasks", () => [{
+    id: 7,
+    completed: false,
+    title: DEFAULT_WORKFLOW_CONFIG.homeworkExtensionTaskTitle,
+    due_date: "2022-01-07",
+    created_at: "",
+    references: [],
+  }]);
+  const completeTask: Stub<Recruitee> = stub(recruitee, "completeTask");
+  stub(gitlab, "updateIssueDueDate", () => {
+    throw new Error("GitLab is down");
+  });
+
+  const error = await assertThrowsAsync(
+    () => createBot(gitlab, recruitee)["extendHomework"](mockCandidate()),
+    GitlabError,
+  );
+
+  assertEquals(completeTask.calls.length, 1);
+  assertEquals(completeTask.calls[0].args, [7]);
+  assert(/2022-01-07/.test(error.message));
+});
+
+Deno.test("reportFinishedEvaluations reports the others if one fails", async () => {
+  const store = new MemoryStore();
+  for (const candidateId of [1, 2]) {
+    await store.set<PendingEvaluation>("evaluations", String(candidateId), {
+      candidateId,
+      project: "evaluation/backend",
+      pipelineId: candidateId,
+      pipelineUrl: "",
+      sha: "abc",
+    });
+  }
+  const pipelines = new Pipelines("https://evaluation.example.com", "apiToken");
+  stub(pipelines, "getPipeline", (_project: string, pipelineId: number) => {
+    if (pipelineId === 1) {
+      throw new Error("Pipeline not found");
+    }
+    return { id: pipelineId, status: "canceled", web_url: "" };
+  });
+  const recruitee = new Recruitee("companyId", "apiToken");
+  const addNote: Stub<Recruitee> = stub(recruitee, "addNoteToCandidate");
+
+  await createBot(
+    new Gitlab("apiToken", "templates", "homework"),
+    recruitee,
+    store,
+    pipelines,
+  )["reportFinishedEvaluations"]();
+
+  assertEquals(addNote.calls.length, 1);
+  assertEquals(addNote.calls[0].args[0], 2);
+  assertEquals(
+    (await store.values<PendingEvaluation>("evaluations")).map((evaluation) =>
+      evaluation.candidateId
+    ),
+    [1],
+  );
+});
+
+Deno.test("startEvaluation runs the tests on the tagged submission", async () => {
+  const gitlab = new Gitlab("apiToken", "templates", "homework");
+  stub(gitlab, "getProjectDetails", () => ({
+    id: "1",
+    name: "homework-abc",
+    web_url: "https://gitlab.com/homework/homework-abc",
+    default_branch: "main",
+    http_url_to_repo: "https://gitlab.com/homework/homework-abc.git",
+  }));
+  const getBranch: Stub<Gitlab> = stub(gitlab, "getBranch");
+  const pipelines = new Pipelines("https://evaluation.example.com", "apiToken");
+  const triggerPipeline: Stub<Pipelines> = stub(
+    pipelines,
+    "triggerPipeline",
+    () => ({ id: 5, status: "pending", web_url: "" }),
+  );
+  const recruitee = new Recruitee("companyId", "apiToken");
+  stub(recruitee, "addNoteToCandidate");
+
+  await createBot(gitlab, recruitee, new MemoryStore(), pipelines)[
+    "startEvaluation"
+  ](
+    mockCandidate(),
+    { id: "1", name: "homework-abc", web_url: "" },
+    { project: "evaluation/backend", ref: "main" },
+    "abc123",
+  );
+
+  assertEquals(getBranch.calls.length, 0);
+  assertEquals(triggerPipeline.calls[0].args[2].SUBMISSION_SHA, "abc123");
+});
+
+Deno.test("collectFinishedReviews collects the others if one fails", async () => {
+  const store = new MemoryStore();
+  for (const candidateId of [1, 2]) {
+    await store.set<PendingReview>("reviewIssues", String(candidateId), {
+      candidateId,
+      projectId: "hacking-talents%2Freviews",
+      issueIid: candidateId,
+      issueUrl: "",
+      criteria: [{ title: "Tests", maxScore: 3 }],
+    });
+  }
+  const gitlab = new Gitlab("apiToken", "templates", "homework");
+  stub(gitlab, "getOwnUserInfo", () => ({ id: 1, name: "", username: "" }));
+  stub(gitlab, "getIssue", (_projectId: string, issueIid: number) => {
+    if (issueIid === 1) {
+      throw new Error("Issue not found");
+    }
+    return {
+      ...mockHomeworkIssue(""),
+      iid: issueIid,
+      description: "- [ ] Tests: 2 / 3",
+      closed_at: "2022-01-10T10:00:00.000Z",
+    };
+  });
+  stub(gitlab, "getIssueNotes", () => []);
+  const recruitee = new Recruitee("companyId", "apiToken");
+  stub(recruitee, "getCandidateById", () => ({ ...mockCandidate(), id: 2 }));
+  const addNote: Stub<Recruitee> = stub(recruitee, "addNoteToCandidate");
+  stub(recruitee, "proceedCandidateToStage");
+
+  await createBot(gitlab, recruitee, store)["collectFinishedReviews"]();
+
+  assertEquals(addNote.calls.length, 1);
+  assertEquals(addNote.calls[0].args[0], 2);
+  assertEquals(
+    (await store.values<PendingReview>("reviewIssues")).map((review) =>
+      review.candidateId
+    ),
+    [1],
+  );
+});
+
+Deno.test("collectFinishedReviews posts the rubric note only once", async () => {
+  const store = new MemoryStore();
+  await store.set<PendingReview>("reviewIssues", "1", {
+    candidateId: 1,
+    projectId: "hacking-talents%2Freviews",
+    issueIid: 1,
+    issueUrl: "",
+    criteria: [{ title: "Tests", maxScore: 3 }],
+  });
+  const gitlab = new Gitlab("apiToken", "templates", "homework");
+  stub(gitlab, "getOwnUserInfo", () => ({ id: 1, name: "", username: "" }));
+  stub(gitlab, "getIssue", () => ({
+    ...mockHomeworkIssue(""),
+    description: "- [ ] Tests: 2 / 3",
+    closed_at: "2022-01-10T10:00:00.000Z",
+  }));
+  stub(gitlab, "getIssueNotes", () => []);
+  const recruitee = new Recruitee("companyId", "apiToken");
+  stub(recruitee, "getCandidateById", () => mockCandidate());
+  const addNote: Stub<Recruitee> = stub(recruitee, "addNoteToCandidate");
+  let failStageMove = true;
+  const proceed: Stub<Recruitee> = stub(
+    recruitee,
+    "proceedCandidateToStage",
+    () => {
+      if (failStageMove) {
+        failStageMove = false;
+        throw new Error("Stage not found");
+      }
+    },
+  );
+  const bot = createBot(gitlab, recruitee, store);
+
+  await bot["collectFinishedReviews"]();
+  await bot["collectFinishedReviews"]();
+
+  assertEquals(addNote.calls.length, 1);
+  assertEquals(proceed.calls.length, 2);
+  assertEquals(await store.values<PendingReview>("reviewIssues"), []);
+});
+
+Deno.test("checkForPlagiarism compares with all other forks, stored ones from the store", async () => {
+  const gitlab = new Gitlab("apiToken", "templates", "homework");
+  const code = "+export function add(a: number, b: number) { return a + b; }";
+  const mockFork = (projectId: string) => ({
+    id: projectId,
+    name: `homework-${projectId}`,
+    web_url: `https://gitlab.com/homework/homework-${projectId}`,
+    default_branch: "main",
+    http_url_to_repo: "",
+    forked_from_project: {
+      id: 7,
+      name: "template",
+      web_url: "https://gitlab.com/templates/template",
+      default_branch: "main",
+    },
+  });
+  stub(gitlab, "getProjectDetails", mockFork);
+  stub(
+    gitlab,
+    "getHomeworkForksOfTemplate",
+    () => ["1", "2", "3"].map(mockFork),
+  );
+  const compareForkWithTemplate: Stub<Gitlab> = stub(
+    gitlab,
+    "compareForkWithTemplate",
+    () => ({
+      commits: [],
+      diffs: [{
+        old_path: "add.ts",
+        new_path: "add.ts",
+        diff: code,
+        deleted_file: false,
+      }],
+    }),
+  );
+  stub(gitlab, "compareRefs", () => {
+    throw new HttpError(404);
+  });
+  const recruitee = new Recruitee("companyId", "apiToken");
+  const addNote: Stub<Recruitee> = stub(recruitee, "addNoteToCandidate");
+  const bot = createBot(gitlab, recruitee);
+
+  for (const projectId of ["1", "2"]) {
+    await bot["checkForPlagiarism"](
+      mockCandidate(),
+      { id: projectId, name: "", web_url: "" },
+      undefined,
+    );
+  }
+
+  // Fork 3 was never submitted, so it is compared each time
+  assertEquals(
+    compareForkWithTemplate.calls.map((call) => call.args[0].id),
+    ["1", "2", "3", "2", "3"],
+  );
+  assert(/homework-2: 100 %/.test(addNote.calls[0].args[1]));
+  assert(/homework-3: 100 %/.test(addNote.calls[0].args[1]));
+  assert(/homework-1: 100 %/.test(addNote.calls[1].args[1]));
+});
+
+Deno.test("finishSubmissionSteps retries only the steps that failed", async () => {
+  const store = new MemoryStore();
+  await store.set<SubmissionSteps>("submissionSteps", "123", {
+    candidateId: 123,
+    projectId: "1",
+    issueIid: 1,
+    reviewProjectId: "1",
+    mergeRequestOpened: true,
+  });
+  const gitlab = new Gitlab("apiToken", "templates", "homework");
+  stub(gitlab, "getProjectDetails", (projectId: string) => ({
+    id: projectId,
+    name: `homework-${projectId}`,
+    web_url: `https://gitlab.com/homework/homework-${projectId}`,
+    default_branch: "main",
+    http_url_to_repo: "",
+    forked_from_project: {
+      id: 7,
+      name: "template",
+      web_url: "https://gitlab.com/templates/template",
+      default_branch: "main",
+    },
+  }));
+  stub(gitlab, "getIssue", () => mockHomeworkIssue(""));
+  stub(gitlab, "compareForkWithTemplate", () => ({ commits: [], diffs: [] }));
+  let failForks = true;
+  stub(gitlab, "getHomeworkForksOfTemplate", () => {
+    if (failForks) {
+      failForks = false;
+      throw new HttpError(502);
+    }
+    return [];
+  });
+  stub(gitlab, "compareRefs", () => {
+    throw new HttpError(404);
+  });
+  const createMergeRequest: Stub<Gitlab> = stub(gitlab, "createMergeRequest");
+  const recruitee = new Recruitee("companyId", "apiToken");
+  stub(recruitee, "getCandidateById", () => mockCandidate());
+  const addNote: Stub<Recruitee> = stub(recruitee, "addNoteToCandidate");
+  const bot = createBot(gitlab, recruitee, store);
+
+  await bot["finishSubmissionSteps"]();
+  assertEquals(
+    (await store.get<SubmissionSteps>("submissionSteps", "123"))
+      ?.plagiarismChecked,
+    undefined,
+  );
+
+  await bot["finishSubmissionSteps"]();
+  assertEquals(addNote.calls.length, 1);
+  assertEquals(createMergeRequest.calls.length, 0);
+  assertEquals(await store.values<SubmissionSteps>("submissionSteps"), []);
+});
+
+Deno.test("finishReviewCopies starts a half-filled review copy over for its reviewers", async () => {
+  const store = new MemoryStore();
+  const reviewCopy: ReviewCopy = {
+    candidateId: 123,
+    pseudonym: "Kandidat-3F2A1C",
+    projectId: "8",
+    webUrl: "https://gitlab.com/review/review-kandidat-3f2a1c",
+    sourceProjectId: "1",
+    solutionBranches: ["solution"],
+    identifiers: ["Candidate"],
+    answers: "Antworten",
+    completed: false,
+  };
+  await store.set<ReviewCopy>("reviewCopies", "123", reviewCopy);
+  await store.set<ReviewCopy>("reviewCopies", "456", {
+    ...reviewCopy,
+    candidateId: 456,
+    completed: true,
+  });
+  await store.set<ReviewAssignment>("reviewAssignments", "123", {
+    candidateId: 123,
+    taskId: 7,
+    adminIds: ["12345"],
+    homework: "backend",
+    assignedAt: "2022-01-03T10:00:00.000Z",
+    completed: false,
+  });
+  const gitlab = new Gitlab("apiToken", "templates", "homework");
+  const deleteProject: Stub<Gitlab> = stub(gitlab, "deleteProject");
+  stub(gitlab, "getProjectDetails", (projectId: string) => ({
+    id: projectId,
+    name: "homework-abc",
+    web_url: "https://gitlab.com/homework/homework-abc",
+    default_branch: "main",
+    http_url_to_repo: "",
+    forked_from_project: {
+      id: 7,
+      name: "template",
+      web_url: "https://gitlab.com/templates/template",
+      default_branch: "main",
+    },
+  }));
+  stub(gitlab, "compareForkWithTemplate", () => ({ commits: [], diffs: [] }));
+  const forkTemplateForReview: Stub<Gitlab> = stub(
+    gitlab,
+    "forkTemplateForReview",
+    () => ({
+      id: "9",
+      name: "review-kandidat-3f2a1c",
+      web_url: "https://gitlab.com/review/review-kandidat-3f2a1c",
+      default_branch: "main",
+      http_url_to_repo: "",
+    }),
+  );
+  stub(gitlab, "replayCommits");
+  const createMergeRequest: Stub<Gitlab> = stub(
+    gitlab,
+    "createMergeRequest",
+    () => ({ web_url: "https://gitlab.com/review/mr" }),
+  );
+  stub(gitlab, "getUser", () => ({ id: 42, name: "", username: "alice" }));
+  const addMember: Stub<Gitlab> = stub(gitlab, "addMaintainerToProject");
+  const createIssue: Stub<Gitlab> = stub(gitlab, "createIssue");
+  const recruitee = new Recruitee("companyId", "apiToken");
+  const addNote: Stub<Recruitee> = stub(recruitee, "addNoteToCandidate");
+  stub(recruitee, "getCandidateById", () => mockCandidate());
+
+  await createBot(
+    gitlab,
+    recruitee,
+    store,
+    new Pipelines("https://evaluation.example.com", "apiToken"),
+    {
+      reviewerPool: {
+        strategy: "leastLoaded",
+        reviewersPerSubmission: 1,
+        reviewWindowInDays: 14,
+        reviewers: [
+          {
+            adminId: "12345",
+            gitlabUsername: "alice",
+            homeworks: [],
+            capacity: 1,
+            absences: [],
+          },
+          { adminId: "67890", homeworks: [], capacity: 1, absences: [] },
+        ],
+      },
+    },
+  )["finishReviewCopies"]();
+
+  assertEquals(deleteProject.calls.map((call) => call.args), [["8"]]);
+  assertEquals(forkTemplateForReview.calls[0].args, [
+    7,
+    "review-kandidat-3f2a1c",
+    ["solution"],
+  ]);
+  assertEquals(createIssue.calls[0].args[2], "Antworten");
+  assertEquals(addNote.calls.length, 2);
+  assertEquals(createMergeRequest.calls[0].args[0], "9");
+  assert(
+    !/Hausaufgaben-Issue/.test(createMergeRequest.calls[0].args[1].description),
+  );
+  assertEquals(addMember.calls.length, 1);
+  assertEquals(addMember.calls[0].args.slice(0, 2), ["9", "42"]);
+  assertEquals(
+    await store.get<ReviewCopy>("reviewCopies", "123"),
+    { ...reviewCopy, projectId: "9", completed: true },
+  );
+});
@@ -1,30 +1,123 @@
 import { HttpError } from "./../http/HttpError.ts";
 import { GitlabError } from "./../gitlab/GitlabError.ts";
-import Gitlab from "../gitlab/gitlab.ts";
-import { GitlabProject, Issue, User as GitlabUser } from "../gitlab/types.ts";
+import Gitlab, {
+  GITLAB_ACCESS_LEVEL_REPORTER,
+  SUBMISSION_TAG_NAME,
+  TEMPLATE_BASE_BRANCH_NAME,
+} from "../gitlab/gitlab.ts";
+import {
+  GitlabProject,
+  Issue,
+  ProjectDetails,
+  SubmissionStats,
+  User as GitlabUser,
+} from "../gitlab/types.ts";
 import Recruitee from "../recruitee/recruitee.ts";
 import {
   Candidate,
   CandidateSingleLineField,
   Task,
 } from "../recruitee/types.ts";
-import { addDaysToDate, sanitizeRepositoryName } from "../tools.ts";
+import {
+  dateToISO,
+  daysBetween,
+  endOfDay,
+  getTimezone,
+  parseISODate,
+  sanitizeRepositoryName,
+} from "../tools.ts";
 import { isDropdownField, isSingleLineField } from "./../recruitee/tools.ts";
 import { EmojiErrorCodes } from "../errormojis.ts";
 import { RecruiteeError } from "../recruitee/RecruiteeError.ts";
 import Monitorer from "../monitoring/monitorer.ts";
-
-const HOMEWORK_TASK_TITLE = "hausaufgabe";
-const HOMEWORK_EXTENSION_TITLE = "Abgabe verschieben";
-const ERROR_TASK_TITLE = "Fehler fixen";
-const HOMEWORK_SENT_STAGE_TITLE = "Hausaufgabe versendet";
-const HOMEWORK_RECEIVED_STAGE_TITLE = "Hausaufgabe erhalten";
-export const HOMEWORK_FIELD_NAME = "Hausaufgabe";
-export const GITLAB_USERNAME_FIELD_NAME = "GitLab Account";
-export const GITLAB_REPO_FIELD_NAME = "GitLab Repo";
+import {
+  CandidateStep,
+  HomeworkProgress,
+  PendingReview,
+  ReviewAssignment,
+  ReviewCopy,
+  SubmissionFingerprints,
+  SubmissionSteps,
+} from "./types.ts";
+import Store from "../store/store.ts";
+import Rollback, { isPermanentError, RolledBackError } from "./rollback.ts";
+import {
+  BotConfig,
+  HomeworkCatalog,
+  HomeworkDefinition,
+  HomeworkEvaluation,
+  HomeworkRubric,
+  OnboardingConfig,
+  Reviewer,
+  ReviewerPoolConfig,
+  WorkflowConfig,
+} from "../config/types.ts";
+import { getWorkflowConfig } from "../config/workflow.ts";
+import { getMessages, Locale } from "../messages.ts";
+import { getOfferConfig } from "../config/config.ts";
+import {
+  DEFAULT_HOMEWORK_DURATION_IN_DAYS,
+  DEFAULT_SOLUTION_BRANCHES,
+  defaultHomeworkDefinition,
+} from "../config/catalog.ts";
+import Calendar from "../calendar/calendar.ts";
+import {
+  buildSubmissionNote,
+  buildSubmissionProblemsNote,
+} from "./submission.ts";
+import {
+  buildAnswersNote,
+  getTextAddedToTemplate,
+  NO_ANSWERS_NOTE,
+} from "./answers.ts";
+import Pipelines from "../evaluation/pipelines.ts";
+import { PendingEvaluation } from "../evaluation/types.ts";
+import {
+  buildEvaluationResultNote,
+  buildEvaluationStartedNote,
+} from "./evaluation.ts";
+import {
+  fingerprint,
+  Fingerprints,
+  getAddedCode,
+  removeCommonFingerprints,
+  similarity,
+} from "../plagiarism/fingerprint.ts";
+import { buildPlagiarismNote, PlagiarismMatch } from "./plagiarism.ts";
+import {
+  anonymizeText,
+  buildReviewCopyNote,
+  generatePseudonym,
+  getPseudonymEmail,
+  getReviewRepositoryName,
+} from "./review.ts";
+import { selectReviewers } from "./reviewers.ts";
+import {
+  buildReviewMergeRequestDescription,
+  buildReviewMergeRequestNote,
+  buildReviewMergeRequestTitle,
+} from "./mergeRequest.ts";
+import {
+  buildRubricIssueDescription,
+  buildRubricNote,
+  getRubricComments,
+  parseRubricScores,
+  REVIEW_ISSUE_TITLE,
+} from "./rubric.ts";
+
+const HOMEWORK_ISSUE_TITLE = "Hausaufgabe abschließen";
 const GITHUB_BASE_URL = "https://gitlab.com/";
-const DEFAULT_HOMEWORK_DURATION_IN_DAYS = 8;
-export const TASK_ASSIGN_MK_TEXT = "MK bilden und zuordnen";
+const HOMEWORK_FORK_PREFIX = "homework-";
+const HOMEWORK_PROGRESS_COLLECTION = "homeworkProgress";
+const EVALUATION_COLLECTION = "evaluations";
+const REVIEW_COPY_COLLECTION = "reviewCopies";
+const REVIEW_ASSIGNMENT_COLLECTION = "reviewAssignments";
+const REVIEW_ISSUE_COLLECTION = "reviewIssues";
+const HOMEWORK_PROJECT_COLLECTION = "homeworkProjects";
+const SUBMISSION_FINGERPRINT_COLLECTION = "submissionFingerprints";
+const SUBMISSION_STEP_COLLECTION = "submissionSteps";
+const ONBOARDING_NOTE =
+  "🎉 Onboarding-Aufgaben für das Personal-Team angelegt.";
 
 export default class Bot {
   private gitlab: Gitlab;
@@ -32,12 +125,22 @@ export default class Bot {
   private deleteProjectInTheEnd = false;
   private requiredTag: string | null = null;
   private monitorer: Monitorer;
+  private store: Store;
+  private config: BotConfig;
+  private homeworkCatalog: HomeworkCatalog | null;
+  private pipelines: Pipelines;
   private dryRun: boolean;
+  private pendingRun: Promise<void> = Promise.resolve();
+  private botGitlabUser?: GitlabUser;
 
   constructor(
     gitlab: Gitlab,
     recruitee: Recruitee,
     monitorer: Monitorer,
+    store: Store,
+    config: BotConfig,
+    homeworkCatalog: HomeworkCatalog | null,
+    pipelines: Pipelines,
     deleteProjectInTheEnd: boolean,
     requiredTag?: string,
     dryRun?: boolean,
@@ -47,10 +150,116 @@ export default class Bot {
     this.requiredTag = requiredTag || null;
     this.deleteProjectInTheEnd = deleteProjectInTheEnd;
     this.monitorer = monitorer;
+    this.store = store;
+    this.config = config;
+    this.homeworkCatalog = homeworkCatalog;
+    this.pipelines = pipelines;
     this.dryRun = dryRun ?? false;
   }
 
   async poll() {
+    await this.runExclusive(() => this.pollAllCandidates());
+  }
+
+  async runForCandidate(candidateId: number, steps: CandidateStep[]) {
+    await this.runExclusive(async () => {
+      const candidate = await this.recruitee.getCandidateById(candidateId);
+
+      if (!(await this.recruitee.isBotTargetCandidate(candidate))) {
+        return;
+      }
+
+      await this.runStepsForCandidate(candidate, steps);
+    });
+  }
+
+  async runForHomeworkProject(projectUrl: string, steps: CandidateStep[]) {
+    await this.runExclusive(async () => {
+      const candidate = await this.findCandidateByProjectUrl(projectUrl);
+
+      if (!candidate) {
+        console.warn(`[Bot] No candidate found for project ${projectUrl}`);
+        return;
+      }
+
+      await this.runStepsForCandidate(candidate, steps);
+    });
+  }
+
+  // GitLab sends a webhook for every issue event, so the candidate behind a project
+  // is remembered instead of fetching all candidates from Recruitee each time.
+  private async findCandidateByProjectUrl(
+    projectUrl: string,
+  ): Promise<Candidate | undefined> {
+    const candidateId = await this.store.get<number>(
+      HOMEWORK_PROJECT_COLLECTION,
+      projectUrl,
+    );
+    if (candidateId !== undefined) {
+      const candidate = await this.recruitee.getCandidateById(candidateId);
+      if (this.getGitlabRepoUrl(candidate) === projectUrl) {
+        return (await this.recruitee.isBotTargetCandidate(candidate))
+          ? candidate
+          : undefined;
+      }
+      await this.store.delete(HOMEWORK_PROJECT_COLLECTION, projectUrl);
+    }
+
+    const candidates = await this.recruitee.getAllQualifiedCandidates();
+    const candidate = candidates.find(
+      (candidate) => this.getGitlabRepoUrl(candidate) === projectUrl,
+    );
+    if (candidate) {
+      await this.rememberHomeworkProject(candidate, projectUrl);
+    }
+    return candidate;
+  }
+
+  private async rememberHomeworkProject(
+    candidate: Candidate,
+    projectUrl: string,
+  ) {
+    await this.store.set<number>(
+      HOMEWORK_PROJECT_COLLECTION,
+      projectUrl,
+      candidate.id,
+    );
+  }
+
+  private async runStepsForCandidate(
+    candidate: Candidate,
+    steps: CandidateStep[],
+  ) {
+    if (
+      !this.candidateHasRequiredTag(candidate) ||
+      (await this.hasUnfinishedErrorTask(candidate))
+    ) {
+      return;
+    }
+
+    if (steps.includes("sendHomework")) {
+      await this.sendAllPendingHomeworks([candidate]).catch(console.warn);
+    }
+    if (steps.includes("checkSubmission")) {
+      await this.checkForClosedIssues([candidate]).catch(console.warn);
+    }
+    if (steps.includes("extendHomework")) {
+      await this.extendAllHomeworks([candidate]).catch(console.warn);
+    }
+    if (steps.includes("onboard")) {
+      await this.onboardAllHiredCandidates([candidate]).catch(console.warn);
+    }
+  }
+
+  // Polling and webhook events must not work on the same candidate concurrently,
+  // otherwise a homework could be sent twice.
+  private runExclusive(run: () => Promise<void>): Promise<void> {
+    const result = this.pendingRun.then(run);
+    this.pendingRun = result.catch(() => {});
+    return result;
+  }
+
+  private async pollAllCandidates() {
     const candidates = await this.recruitee.getAllQualifiedCandidates();
 
     const candidatesWithRequiredTag = candidates.filter(
@@ -88,11 +297,121 @@ export default class Bot {
       console.warn,
     );
 
+    await this.remindAllCandidates(candidatesWithoutUnfinishedErrorTask).catch(
+      console.warn,
+    );
+
+    await this.escalateAllOverdueHomeworks(
+      candidatesWithoutUnfinishedErrorTask,
+    ).catch(console.warn);
+
+    await this.onboardAllHiredCandidates(
+      candidatesWithoutUnfinishedErrorTask,
+    ).catch(console.warn);
+
+    await this.reportFinishedEvaluations().catch(console.warn);
+
+    await this.finishSubmissionSteps().catch(console.warn);
+
+    await this.finishReviewCopies().catch(console.warn);
+
+    await this.collectFinishedReviews().catch(console.warn);
+
+    await this.updateReviewAssignments().catch(console.warn);
+
     await this.monitorer.signalSuccess();
   }
 
-  // TODO: Assign Tasks for personel-team, when candidates are moved to "hired"-stage
-  // see [Issue #5](https://github.com/hacking-talents/ht-bewerbungsbot/issues/5)
+  private async onboardAllHiredCandidates(candidates: Candidate[]) {
+    const onboarding = this.config.onboarding;
+    if (!onboarding) {
+      return;
+    }
+
+    const hiredCandidates = await this.filterCandidatesInStage(
+      candidates,
+      () => onboarding.stage,
+    );
+
+    await Promise.all(
+      hiredCandidates.map((candidate) =>
+        this.onboardCandidate(candidate, onboarding).catch((error) =>
+          this.handleError(error, candidate)
+        )
+      ),
+    );
+  }
+
+  private async onboardCandidate(
+    candidate: Candidate,
+    onboarding: OnboardingConfig,
+  ) {
+    if (await this.recruitee.noteExists(candidate.id, ONBOARDING_NOTE)) {
+      return;
+    }
+
+    if (this.dryRun) {
+      console.log(
+        `[Bot/dry-run] would have created onboarding tasks for ${candidate.name}`,
+      );
+      return;
+    }
+
+    await this.cleanUpHomeworkRepository(
+      candidate,
+      onboarding.homeworkRepository,
+    );
+
+    for (const task of onboarding.tasks) {
+      await this.recruitee.createCandidateTask(
+        candidate,
+        task.title,
+        task.adminIds,
+      );
+    }
+
+    // The note marks the candidate as onboarded, so it is added after all tasks were created
+    await this.recruitee.addNoteToCandidate(candidate.id, ONBOARDING_NOTE);
+
+    console.log(
+      `[Bot] Created ${onboarding.tasks.length} onboarding tasks for candidate with id ${candidate.id}`,
+    );
+  }
+
+  private async cleanUpHomeworkRepository(
+    candidate: Candidate,
+    handling: OnboardingConfig["homeworkRepository"],
+  ) {
+    if (handling === "keep" || !this.getGitlabRepoUrl(candidate)) {
+      return;
+    }
+
+    const project = await this.getProjectByCandidate(candidate);
+
+    if (handling === "delete") {
+      await this.deleteGitlabProjectAndRemoveRepoField(
+        candidate,
+        project.id,
+      );
+      return;
+    }
+
+    const gitlabUser = await this.gitlab.getUser(
+      this.getGitlabUsername(candidate),
+    );
+    try {
+      await this.gitlab.removeMemberFromProject(
+        project.id,
+        String(gitlabUser.id),
+      );
+    } catch (error) {
+      // The membership may already have expired with the homework due date
+      if (!(error instanceof HttpError && error.statusCode === 404)) {
+        throw error;
+      }
+    }
+    await this.gitlab.archiveProject(project.id);
+  }
 
   private async extendAllHomeworks(candidates: Candidate[]) {
     await Promise.all(
@@ -120,161 +439,1386 @@ export default class Bot {
       return;
     }
 
-    const project = await this.getProjectByCandidate(candidate);
-    const issues = await this.gitlab.getProjectIssues(project.id, "opened");
+    const homeworkIssue = await this.getOpenHomeworkIssue(candidate);
+    if (!homeworkIssue) {
+      throw new GitlabError(
+        `${EmojiErrorCodes.PROJECT_NOT_FOUND} Kein offenes Hausaufgaben-Issue gefunden, die Abgabe kann nicht verschoben werden.`,
+      );
+    }
+    const { project, issue } = homeworkIssue;
+
+    let oldDueDate;
+    if (issue.due_date) {
+      oldDueDate = parseISODate(issue.due_date);
+    }
+    const newDueDate = this.calculateDueDateFromTask(
+      homeworkExtensionTask,
+      DEFAULT_HOMEWORK_DURATION_IN_DAYS,
+      this.getCalendar(candidate),
+      oldDueDate,
+    );
+
+    // Completed before anything is changed, as running the extension twice would move the due date twice
+    await this.recruitee.completeTask(homeworkExtensionTask.id);
+
+    try {
+      await this.gitlab.updateIssueDueDate(project.id, issue.iid, newDueDate);
+      await this.gitlab.updateMemberExpiry(
+        project.id,
+        String(issue.assignee.id),
+        newDueDate,
+      );
+    } catch (error) {
+      console.warn(
+        `[Bot] Failed to extend homework of candidate with id ${candidate.id}`,
+        error,
+      );
+      throw new GitlabError(
+        `${EmojiErrorCodes.UNEXPECTED_HTTP} Die Verlängerung wurde als erledigt markiert, aber die Abgabe konnte in GitLab nicht auf den ${
+          dateToISO(newDueDate)
+        } verschoben werden. Bitte Fälligkeit des Issues und Zugriff der Kandidat:in von Hand anpassen.`,
+      );
+    }
+
+    const shouldSendMail = this.recruitee.shouldSendMail(candidate);
+    if (shouldSendMail) {
+      await this.notifyCandidateAboutExtension(candidate, issue, newDueDate);
+    }
+
+    const overdueCandidates = await this.filterCandidatesInStage(
+      [candidate],
+      (workflow) => workflow.overdueStageTitle,
+    );
+    if (overdueCandidates.length > 0) {
+      await this.recruitee.proceedCandidateToStage(
+        candidate,
+        this.getWorkflow(candidate).homeworkSentStageTitle,
+      );
+    }
+
+    const localizedDueDate = newDueDate.toLocaleDateString("de-DE", {
+      timeZone: getTimezone(),
+      weekday: "long",
+      day: "numeric",
+      month: "long",
+    });
+    await this.recruitee.addNoteToCandidate(
+      candidate.id,
+      `📆 Abgabe verschoben auf ${localizedDueDate}${
+        shouldSendMail ? ", Kandidat:in wurde per Mail informiert" : ""
+      }.`,
+    );
+
+    console.log(
+      `[Bot] Extended homework of candidate with id ${candidate.id} until ${newDueDate.toISOString()}`,
+    );
+  }
+
+  private async notifyCandidateAboutExtension(
+    candidate: Candidate,
+    gitlabIssue: Issue,
+    dueDate: Date,
+  ) {
+    const [candidateMailAddress, ...optionalMailAddresses] = candidate.emails;
+    if (!candidateMailAddress) {
+      throw new RecruiteeError(
+        `${EmojiErrorCodes.EMAIL_NOT_FOUND} Es wurde keine Emailadresse gefunden.`,
+      );
+    }
+
+    await this.recruitee.sendExtensionMailToCandidate(
+      candidate.id,
+      candidateMailAddress,
+      optionalMailAddresses,
+      {
+        applicantName: this.recruitee.getCandidateSalutation(candidate),
+        mk_signature: this.recruitee.getSignature(candidate),
+        issueUrl: gitlabIssue.web_url,
+        homeworkDueDate: this.getCalendar(candidate).lastDayBefore(dueDate),
+      },
+      this.recruitee.getCandidateLocale(candidate),
+    );
+  }
+
+  private async handleError(error: Error, candidate: Candidate) {
+    let rollbackSummary = "";
+    if (error instanceof RolledBackError) {
+      rollbackSummary = `\n\n↩️ Versand der Hausaufgabe rückgängig gemacht:\n${
+        error.summary.join("\n")
+      }`;
+      error = error.originalError;
+    }
+
+    if (error instanceof GitlabError || error instanceof RecruiteeError) {
+      await this.notifyAboutError(candidate, error.message + rollbackSummary);
+    } else if (error instanceof HttpError) {
+      await this.notifyAboutError(
+        candidate,
+        `${EmojiErrorCodes.UNEXPECTED_HTTP} Unerwarteter HTTP-Fehler mit Code ${error.statusCode}. Für mehr Infos bitte in die Logs schauen.` +
+          rollbackSummary,
+        error,
+      );
+    } else {
+      await this.notifyAboutError(
+        candidate,
+        `${EmojiErrorCodes.UNEXPECTED} Unerwarteter Fehler. Bitte in die Logs schauen.` +
+          rollbackSummary,
+        error,
+      );
+    }
+
+    const workflow = this.getWorkflow(candidate);
+    await this.recruitee.addTagToCandidate(candidate, workflow.errorTag);
+    await this.recruitee.createCandidateTask(
+      candidate,
+      workflow.errorTaskTitle,
+    );
+  }
+
+  private async sendAllPendingHomeworks(candidates: Candidate[]) {
+    await Promise.all(
+      candidates.map((candidate) =>
+        this.sendHomeworkForCandidate(candidate).catch((error) =>
+          this.handleError(error, candidate)
+        )
+      ),
+    );
+  }
+
+  private async filterCandidatesInStage(
+    candidates: Candidate[],
+    getStageTitle: (workflow: WorkflowConfig) => string | undefined,
+  ): Promise<Candidate[]> {
+    return (
+      await Promise.all(
+        candidates.map(async (candidate) => {
+          const placement = candidate.placements[0];
+          if (!placement || !placement.stage_id) return;
+          const stageTitle = getStageTitle(this.getWorkflow(candidate));
+          if (!stageTitle) return;
+          try {
+            const stage = await this.recruitee.getStageByName(
+              stageTitle,
+              placement.offer_id,
+            );
+            if (placement.stage_id == stage.id) {
+              return candidate;
+            }
+          } catch (e) {
+            this.handleError(e, candidate);
+          }
+        }),
+      )
+    ).filter((c): c is Candidate => c !== undefined);
+  }
+
+  private async checkForClosedIssues(candidates: Candidate[]) {
+    const homeworkSentCandidates = await this.filterCandidatesInStage(
+      candidates,
+      (workflow) => workflow.homeworkSentStageTitle,
+    );
+    homeworkSentCandidates.push(
+      ...(await this.filterCandidatesInStage(
+        candidates,
+        (workflow) => workflow.overdueStageTitle,
+      )),
+    );
+
+    // One after another, so every reviewer selection sees the assignments made before it
+    for (const candidate of homeworkSentCandidates) {
+      await this.handleClosedCandidateIssues(candidate).catch((error) =>
+        this.handleError(error, candidate)
+      );
+    }
+  }
+
+  private async remindAllCandidates(candidates: Candidate[]) {
+    const reminderDays = this.getReminderDays();
+    if (reminderDays.length === 0) {
+      return;
+    }
+
+    const homeworkSentCandidates = await this.filterCandidatesInStage(
+      candidates,
+      (workflow) => workflow.homeworkSentStageTitle,
+    );
+
+    await Promise.all(
+      homeworkSentCandidates.map((candidate) =>
+        this.remindCandidate(candidate, reminderDays).catch((error) =>
+          this.handleError(error, candidate)
+        )
+      ),
+    );
+  }
+
+  private async remindCandidate(candidate: Candidate, reminderDays: number[]) {
+    if (!this.recruitee.shouldSendMail(candidate)) {
+      return;
+    }
+
+    const homeworkIssue = await this.getOpenHomeworkIssue(candidate);
+    if (!homeworkIssue?.issue.due_date) {
+      return;
+    }
+
+    const dueDate = parseISODate(homeworkIssue.issue.due_date);
+    const daysLeft = daysBetween(new Date(), dueDate);
+    if (!reminderDays.includes(daysLeft)) {
+      return;
+    }
+
+    // The due date is part of the note, so an extended homework is reminded again
+    const reminderNote = `⏰ Erinnerung an die Abgabe versendet (${
+      daysLeft == 1 ? "1 Tag" : `${daysLeft} Tage`
+    } vor Fälligkeit am ${
+      dueDate.toLocaleDateString("de-DE", { timeZone: getTimezone() })
+    }).`;
+    if (await this.recruitee.noteExists(candidate.id, reminderNote)) {
+      return;
+    }
+
+    if (this.dryRun) {
+      console.log(
+        `[Bot/dry-run] would have reminded ${candidate.name} of their homework due in ${daysLeft} days`,
+      );
+      return;
+    }
+
+    const [candidateMailAddress, ...optionalMailAddresses] = candidate.emails;
+    if (!candidateMailAddress) {
+      throw new RecruiteeError(
+        `${EmojiErrorCodes.EMAIL_NOT_FOUND} Es wurde keine Emailadresse gefunden.`,
+      );
+    }
+
+    await this.recruitee.sendReminderMailToCandidate(
+      candidate.id,
+      candidateMailAddress,
+      optionalMailAddresses,
+      {
+        applicantName: this.recruitee.getCandidateSalutation(candidate),
+        mk_signature: this.recruitee.getSignature(candidate),
+        issueUrl: homeworkIssue.issue.web_url,
+        homeworkDueDate: this.getCalendar(candidate).lastDayBefore(dueDate),
+      },
+      this.recruitee.getCandidateLocale(candidate),
+    );
+    await this.recruitee.addNoteToCandidate(candidate.id, reminderNote);
+
+    console.log(
+      `[Bot] Reminded candidate with id ${candidate.id} of homework due in ${daysLeft} days`,
+    );
+  }
+
+  private async escalateAllOverdueHomeworks(candidates: Candidate[]) {
+    const homeworkSentCandidates = await this.filterCandidatesInStage(
+      candidates,
+      (workflow) => workflow.homeworkSentStageTitle,
+    );
+
+    await Promise.all(
+      homeworkSentCandidates.map((candidate) =>
+        this.escalateOverdueHomework(candidate).catch((error) =>
+          this.handleError(error, candidate)
+        )
+      ),
+    );
+  }
+
+  private async escalateOverdueHomework(candidate: Candidate) {
+    const homeworkIssue = await this.getOpenHomeworkIssue(candidate);
+    if (!homeworkIssue?.issue.due_date) {
+      return;
+    }
+
+    const dueDate = parseISODate(homeworkIssue.issue.due_date);
+    if (daysBetween(new Date(), dueDate) >= 0) {
+      return;
+    }
+
+    const overdueNote = `⌛ Hausaufgabe überfällig: Das Issue ist seit dem ${
+      dueDate.toLocaleDateString("de-DE", { timeZone: getTimezone() })
+    } fällig, aber noch offen.`;
+    if (await this.recruitee.noteExists(candidate.id, overdueNote)) {
+      return;
+    }
+
+    if (this.dryRun) {
+      console.log(
+        `[Bot/dry-run] would have escalated overdue homework of ${candidate.name}`,
+      );
+      return;
+    }
+
+    const workflow = this.getWorkflow(candidate);
+    await this.recruitee.addNoteToCandidate(candidate.id, overdueNote);
+    await this.recruitee.createCandidateTask(
+      candidate,
+      workflow.overdueTaskTitle,
+      Deno.env.get("RECRUITEE_HR_ID"),
+    );
+
+    if (workflow.overdueStageTitle) {
+      await this.recruitee.proceedCandidateToStage(
+        candidate,
+        workflow.overdueStageTitle,
+      );
+    }
+
+    console.log(
+      `[Bot] Escalated overdue homework of candidate with id ${candidate.id}`,
+    );
+  }
+
+  private getReminderDays(): number[] {
+    const reminderDays = Deno.env.get("REMINDER_DAYS_BEFORE_DUE_DATE") ?? "";
+
+    return reminderDays
+      .split(",")
+      .map((days) => parseInt(days.trim(), 10))
+      .filter((days) => !isNaN(days) && days > 0);
+  }
+
+  private async getOpenHomeworkIssue(
+    candidate: Candidate,
+  ): Promise<{ project: GitlabProject; issue: Issue } | undefined> {
+    const project = await this.getProjectByCandidate(candidate);
+    const openIssuesByBot = await this.gitlab.getProjectIssues(
+      project.id,
+      "opened",
+      await this.getBotGitlabUser(),
+    );
+
+    const issue = openIssuesByBot.find(
+      (issue) => issue.title === HOMEWORK_ISSUE_TITLE,
+    );
+    return issue ? { project, issue } : undefined;
+  }
+
+  private async getBotGitlabUser(): Promise<GitlabUser> {
+    if (!this.botGitlabUser) {
+      this.botGitlabUser = await this.gitlab.getOwnUserInfo();
+    }
+    return this.botGitlabUser;
+  }
+
+  private async handleClosedCandidateIssues(candidate: Candidate) {
+    let project: GitlabProject;
+    let botGitlabUser: GitlabUser;
+    let closedIssuesByBot: Issue[];
+    try {
+      project = await this.getProjectByCandidate(candidate);
+      botGitlabUser = await this.getBotGitlabUser();
+      closedIssuesByBot = await this.gitlab.getProjectIssues(
+        project.id,
+        "closed",
+        botGitlabUser,
+      );
+    } catch (e) {
+      console.warn(e.message);
+      return;
+    }
+
+    if (!closedIssuesByBot || closedIssuesByBot.length < 1) {
+      return;
+    }
+    if (closedIssuesByBot.length > 1) {
+      throw Error(
+        `There are multiple closed issues created by the Bot in project ${project.id}`,
+      );
+    }
+
+    if (this.dryRun) {
+      console.log(
+        `[Bot/dry-run] Candidate ${candidate.name} is done with their homework at ${project}`,
+      );
+      return;
+    }
+
+    const [closedIssue] = closedIssuesByBot;
+    const submissionProblems: string[] = [];
+    let submissionSha: string | undefined;
+    try {
+      submissionSha = await this.tagSubmission(project);
+    } catch (error) {
+      console.warn(
+        `[Bot] Could not tag the submission in project ${project.id}`,
+        error,
+      );
+      submissionProblems.push(
+        `Tag "${SUBMISSION_TAG_NAME}" auf den abgegebenen Stand setzen: ${project.web_url}`,
+      );
+    }
+    try {
+      await this.revokeCandidateWriteAccess(project, closedIssue);
+    } catch (error) {
+      console.warn(
+        `[Bot] Could not revoke the write access to project ${project.id}`,
+        error,
+      );
+      submissionProblems.push(
+        `Schreibrechte der Kandidat:in entziehen: ${project.web_url}/-/project_members`,
+      );
+    }
+
+    let submissionStats: SubmissionStats | undefined;
+    try {
+      submissionStats = await this.gitlab.getSubmissionStats(project.id);
+    } catch (error) {
+      // The statistics are a nice-to-have, the submission is processed anyway
+      console.warn(
+        `[Bot] Could not collect submission statistics of project ${project.id}`,
+        error,
+      );
+    }
+
+    const workflow = this.getWorkflow(candidate);
+    await this.recruitee.proceedCandidateToStage(
+      candidate,
+      workflow.homeworkReceivedStageTitle,
+    );
+    const homework = this.findHomeworkDefinition(candidate);
+    let answersNote: string | undefined;
+    try {
+      answersNote = await this.copyIssueAnswers(
+        candidate,
+        project,
+        closedIssue,
+        homework,
+      );
+    } catch (error) {
+      console.warn(
+        `[Bot] Could not copy the issue answers of candidate with id ${candidate.id}`,
+        error,
+      );
+    }
+
+    // Reviewers of an anonymised submission never get access to the candidate's fork
+    let reviewProject: GitlabProject | undefined = project;
+    if (this.gitlab.hasReviewNamespace()) {
+      try {
+        reviewProject = await this.createReviewCopy(
+          candidate,
+          project,
+          closedIssue,
+          answersNote,
+          homework,
+        );
+      } catch (error) {
+        reviewProject = undefined;
+        console.warn(
+          `[Bot] Could not create the review copy of candidate with id ${candidate.id}`,
+          error,
+        );
+      }
+    }
+
+    await this.assignReviewers(candidate, reviewProject);
+    await this.recruitee.addNoteToCandidate(
+      candidate.id,
+      buildSubmissionNote(
+        closedIssue,
+        submissionStats,
+        closedIssue.due_date
+          ? this.getCalendar(candidate).lastDayBefore(
+            parseISODate(closedIssue.due_date),
+          )
+          : undefined,
+        submissionSha,
+      ),
+    );
+    if (submissionProblems.length > 0) {
+      await this.recruitee.addNoteToCandidate(
+        candidate.id,
+        buildSubmissionProblemsNote(submissionProblems),
+      );
+    }
+
+    const steps: SubmissionSteps = {
+      candidateId: candidate.id,
+      projectId: project.id,
+      issueIid: closedIssue.iid,
+      submissionSha,
+      reviewProjectId: reviewProject?.id,
+    };
+    await this.store.set<SubmissionSteps>(
+      SUBMISSION_STEP_COLLECTION,
+      String(candidate.id),
+      steps,
+    );
+    await this.runSubmissionSteps(
+      candidate,
+      project,
+      closedIssue,
+      reviewProject,
+      steps,
+      submissionStats,
+    );
+  }
+
+  private async finishSubmissionSteps() {
+    if (this.dryRun) {
+      return;
+    }
+
+    const pendingSteps = await this.store.values<SubmissionSteps>(
+      SUBMISSION_STEP_COLLECTION,
+    );
+    for (const steps of pendingSteps) {
+      try {
+        const candidate = await this.recruitee.getCandidateById(
+          steps.candidateId,
+        );
+        const project = await this.gitlab.getProjectDetails(steps.projectId);
+        const issue = await this.gitlab.getIssue(
+          steps.projectId,
+          steps.issueIid,
+        );
+        let reviewProject: GitlabProject | undefined;
+        if (steps.reviewProjectId !== undefined) {
+          reviewProject = String(steps.reviewProjectId) === String(project.id)
+            ? project
+            : await this.gitlab.getProjectDetails(steps.reviewProjectId);
+        }
+        // The statistics only appear in the first attempt of the merge request
+        await this.runSubmissionSteps(
+          candidate,
+          project,
+          issue,
+          reviewProject,
+          steps,
+          undefined,
+        );
+      } catch (error) {
+        console.warn(
+          `[Bot] Could not finish the submission of candidate ${steps.candidateId}`,
+          error,
+        );
+      }
+    }
+  }
+
+  // Each step is remembered once it has run, the steps still missing are tried again by the next poll
+  private async runSubmissionSteps(
+    candidate: Candidate,
+    project: GitlabProject,
+    issue: Issue,
+    reviewProject: GitlabProject | undefined,
+    steps: SubmissionSteps,
+    submissionStats: SubmissionStats | undefined,
+  ) {
+    const homework = this.findHomeworkDefinition(candidate);
+    const progress = { ...steps };
+    let complete = true;
+    const saveProgress = async () => {
+      await this.store.set<SubmissionSteps>(
+        SUBMISSION_STEP_COLLECTION,
+        String(candidate.id),
+        progress,
+      );
+    };
+
+    if (reviewProject && !progress.mergeRequestOpened) {
+      try {
+        await this.openReviewMergeRequest(
+          candidate,
+          reviewProject,
+          String(reviewProject.id) === String(project.id) ? issue : undefined,
+          submissionStats,
+        );
+        progress.mergeRequestOpened = true;
+        await saveProgress();
+      } catch (error) {
+        complete = false;
+        console.warn(
+          `[Bot] Could not open the review merge request in project ${reviewProject.id}`,
+          error,
+        );
+      }
+    }
+
+    if (homework?.rubric && !progress.reviewIssueOpened) {
+      try {
+        await this.openReviewIssue(candidate, project, homework.rubric);
+        progress.reviewIssueOpened = true;
+        await saveProgress();
+      } catch (error) {
+        complete = false;
+        console.warn(
+          `[Bot] Could not open the review issue for candidate with id ${candidate.id}`,
+          error,
+        );
+      }
+    }
+
+    if (!progress.plagiarismChecked) {
+      try {
+        await this.checkForPlagiarism(candidate, project, homework);
+        progress.plagiarismChecked = true;
+        await saveProgress();
+      } catch (error) {
+        complete = false;
+        console.warn(
+          `[Bot] Could not check the submission of candidate with id ${candidate.id} for plagiarism`,
+          error,
+        );
+      }
+    }
+
+    if (homework?.evaluation && !progress.evaluationStarted) {
+      try {
+        await this.startEvaluation(
+          candidate,
+          project,
+          homework.evaluation,
+          progress.submissionSha,
+        );
+        progress.evaluationStarted = true;
+        await saveProgress();
+      } catch (error) {
+        complete = false;
+        console.warn(
+          `[Bot] Could not start the evaluation of candidate with id ${candidate.id}`,
+          error,
+        );
+      }
+    }
+
+    if (complete) {
+      await this.store.delete(SUBMISSION_STEP_COLLECTION, String(candidate.id));
+    }
+  }
+
+  // Reviewers grade the copy without knowing whose it is, only the store maps the pseudonym back to the candidate
+  private async createReviewCopy(
+    candidate: Candidate,
+    project: GitlabProject,
+    issue: Issue,
+    answersNote: string | undefined,
+    homework: HomeworkDefinition | undefined,
+  ): Promise<GitlabProject> {
+    const existingCopy = await this.store.get<ReviewCopy>(
+      REVIEW_COPY_COLLECTION,
+      String(candidate.id),
+    );
+    if (existingCopy) {
+      return {
+        id: existingCopy.projectId,
+        name: getReviewRepositoryName(existingCopy.pseudonym),
+        web_url: existingCopy.webUrl,
+      };
+    }
+
+    return await this.copyForReview({
+      candidateId: candidate.id,
+      pseudonym: generatePseudonym(),
+      sourceProjectId: project.id,
+      solutionBranches: homework?.solutionBranches ??
+        DEFAULT_SOLUTION_BRANCHES,
+      identifiers: [
+        candidate.name,
+        ...candidate.emails,
+        issue.assignee.username,
+      ],
+      answers: answersNote ?? NO_ANSWERS_NOTE,
+    });
+  }
+
+  // The copy is remembered before its commits are copied, so one left unfinished is started over by finishReviewCopies
+  private async copyForReview(
+    request: Omit<ReviewCopy, "projectId" | "webUrl" | "completed">,
+  ): Promise<GitlabProject> {
+    const fork = await this.gitlab.getProjectDetails(request.sourceProjectId);
+    const { commits } = await this.gitlab.compareForkWithTemplate(fork);
+    const copy = await this.gitlab.forkTemplateForReview(
+      fork.forked_from_project!.id,
+      getReviewRepositoryName(request.pseudonym),
+      request.solutionBranches,
+    );
+    const reviewCopy: ReviewCopy = {
+      ...request,
+      projectId: copy.id,
+      webUrl: copy.web_url,
+      completed: false,
+    };
+    const key = String(request.candidateId);
+    await this.store.set<ReviewCopy>(REVIEW_COPY_COLLECTION, key, reviewCopy);
+
+    await this.gitlab.replayCommits(
+      fork,
+      commits.map((commit) => ({
+        ...commit,
+        title: anonymizeText(
+          commit.title,
+          request.identifiers,
+          request.pseudonym,
+        ),
+      })),
+      copy,
+      {
+        name: request.pseudonym,
+        email: getPseudonymEmail(request.pseudonym),
+      },
+    );
+    await this.gitlab.createIssue(
+      copy.id,
+      HOMEWORK_ISSUE_TITLE,
+      anonymizeText(request.answers, request.identifiers, request.pseudonym),
+    );
+    await this.store.set<ReviewCopy>(REVIEW_COPY_COLLECTION, key, {
+      ...reviewCopy,
+      completed: true,
+    });
+
+    await this.recruitee.addNoteToCandidate(
+      request.candidateId,
+      buildReviewCopyNote(request.pseudonym, copy.web_url),
+    );
+    return copy;
+  }
+
+  private async grantAssignedReviewersAccess(
+    candidate: Candidate,
+    project: GitlabProject,
+  ) {
+    const pool = this.config.reviewerPool;
+    const assignment = await this.store.get<ReviewAssignment>(
+      REVIEW_ASSIGNMENT_COLLECTION,
+      String(candidate.id),
+    );
+    if (!pool || !assignment) {
+      return;
+    }
+
+    await this.grantReviewersAccess(
+      candidate,
+      project,
+      pool,
+      pool.reviewers.filter((reviewer) =>
+        assignment.adminIds.includes(reviewer.adminId)
+      ),
+    );
+  }
+
+  private async deleteUnfinishedReviewCopy(reviewCopy: ReviewCopy) {
+    try {
+      await this.gitlab.deleteProject(reviewCopy.projectId);
+    } catch (error) {
+      // An earlier attempt may have deleted it before failing to fork again
+      if (!(error instanceof HttpError && error.statusCode === 404)) {
+        throw error;
+      }
+    }
+  }
+
+  // A half-filled copy is deleted and copied again under the same pseudonym. The reviewers
+  // already assigned get access to the new one, which gets its own merge request.
+  private async finishReviewCopies() {
+    if (this.dryRun) {
+      return;
+    }
+
+    const reviewCopies = await this.store.values<ReviewCopy>(
+      REVIEW_COPY_COLLECTION,
+    );
+    // Copies remembered before the flag existed have no completed field and were finished
+    const unfinished = reviewCopies.filter((reviewCopy) =>
+      reviewCopy.completed === false
+    );
+
+    for (const reviewCopy of unfinished) {
+      try {
+        await this.deleteUnfinishedReviewCopy(reviewCopy);
+        const copy = await this.copyForReview({
+          candidateId: reviewCopy.candidateId,
+          pseudonym: reviewCopy.pseudonym,
+          sourceProjectId: reviewCopy.sourceProjectId,
+          solutionBranches: reviewCopy.solutionBranches,
+          identifiers: reviewCopy.identifiers,
+          answers: reviewCopy.answers,
+        });
+        const candidate = await this.recruitee.getCandidateById(
+          reviewCopy.candidateId,
+        );
+        await this.grantAssignedReviewersAccess(candidate, copy);
+        await this.openReviewMergeRequest(
+          candidate,
+          copy,
+          undefined,
+          undefined,
+        );
+      } catch (error) {
+        console.warn(
+          `[Bot] Could not finish the review copy of candidate ${reviewCopy.candidateId}`,
+          error,
+        );
+      }
+    }
+  }
+
+  // Compares what the candidate added with the other forks of the template and with the solution branches
+  // Submitted forks are frozen by the submission tag, so their stored fingerprints stand in for another comparison
+  private async getForkFingerprints(
+    fork: ProjectDetails,
+  ): Promise<Fingerprints> {
+    const stored = await this.store.get<SubmissionFingerprints>(
+      SUBMISSION_FINGERPRINT_COLLECTION,
+      String(fork.id),
+    );
+    if (stored) {
+      return new Set(stored.fingerprints);
+    }
+    return fingerprint(
+      getAddedCode(await this.gitlab.compareForkWithTemplate(fork)),
+    );
+  }
+
+  private async checkForPlagiarism(
+    candidate: Candidate,
+    project: GitlabProject,
+    homework: HomeworkDefinition | undefined,
+  ) {
+    const fork = await this.gitlab.getProjectDetails(project.id);
+    const submission = fingerprint(
+      getAddedCode(await this.gitlab.compareForkWithTemplate(fork)),
+    );
+    const template = fork.forked_from_project!;
+
+    await this.store.set<SubmissionFingerprints>(
+      SUBMISSION_FINGERPRINT_COLLECTION,
+      String(fork.id),
+      { projectId: String(fork.id), fingerprints: [...submission] },
+    );
+
+    const otherForks = (await this.gitlab.getHomeworkForksOfTemplate(
+      template.id,
+      HOMEWORK_FORK_PREFIX,
+    )).filter((other) => String(other.id) !== String(fork.id));
+    const otherSubmissions: { fork: ProjectDetails; code: Fingerprints }[] = [];
+    for (const other of otherForks) {
+      try {
+        otherSubmissions.push({
+          fork: other,
+          code: await this.getForkFingerprints(other),
+        });
+      } catch (error) {
+        // Forks without any commit have no default branch to compare
+        console.warn(
+          `[Bot] Could not compare fork ${other.web_url} with its template`,
+          error,
+        );
+      }
+    }
+
+    const solutionFingerprints: Fingerprints[] = [];
+    const solutionBranches = homework?.solutionBranches ??
+      DEFAULT_SOLUTION_BRANCHES;
+    for (const branch of solutionBranches) {
+      try {
+        solutionFingerprints.push(fingerprint(getAddedCode(
+          await this.gitlab.compareRefs(
+            template.id,
+            template.default_branch,
+            branch,
+          ),
+        )));
+      } catch (error) {
+        if (error instanceof HttpError && error.statusCode === 404) {
+          solutionFingerprints.push(new Set());
+          continue;
+        }
+        throw error;
+      }
+    }
+
+    const ownCode = removeCommonFingerprints(
+      submission,
+      otherSubmissions.map(({ code }) => code),
+    );
+    const matches: PlagiarismMatch[] = [
+      ...otherSubmissions.map(({ fork, code }) => ({
+        repository: fork.name,
+        url: fork.web_url,
+        similarity: similarity(ownCode, code),
+      })),
+      // A leaked solution copied by most candidates is common code, but still a match
+      ...solutionBranches.map((branch, i) => ({
+        repository: `${template.name} (Branch ${branch})`,
+        url: `${template.web_url}/-/tree/${branch}`,
+        similarity: similarity(submission, solutionFingerprints[i]),
+      })),
+    ];
+
+    await this.recruitee.addNoteToCandidate(
+      candidate.id,
+      buildPlagiarismNote(matches, otherSubmissions.length),
+    );
+  }
+
+  // Without a reviewer pool, or nobody in it available, HR picks the reviewers by hand
+  // Without a project to review, e.g. if the anonymised copy failed, the reviewers only get the task
+  private async assignReviewers(
+    candidate: Candidate,
+    project: GitlabProject | undefined,
+  ) {
+    const workflow = this.getWorkflow(candidate);
+    const pool = this.config.reviewerPool;
+    const homework = this.findHomeworkToSend(candidate);
+
+    const reviewers = pool && homework
+      ? selectReviewers(
+        pool,
+        await this.store.values<ReviewAssignment>(REVIEW_ASSIGNMENT_COLLECTION),
+        homework,
+        dateToISO(new Date()),
+      )
+      : [];
+    if (!pool || !homework || reviewers.length === 0) {
+      await this.recruitee.createCandidateTask(
+        candidate,
+        workflow.assignMkTaskTitle,
+        Deno.env.get("RECRUITEE_HR_ID"),
+      );
+      return;
+    }
+
+    const adminIds = reviewers.map((reviewer) => reviewer.adminId);
+    const { task } = await this.recruitee.createCandidateTask(
+      candidate,
+      workflow.reviewTaskTitle,
+      adminIds,
+    );
+    await this.store.set<ReviewAssignment>(
+      REVIEW_ASSIGNMENT_COLLECTION,
+      String(candidate.id),
+      {
+        candidateId: candidate.id,
+        taskId: task.id,
+        adminIds,
+        homework,
+        assignedAt: new Date().toISOString(),
+        completed: false,
+      },
+    );
+
+    if (project) {
+      await this.grantReviewersAccess(candidate, project, pool, reviewers);
+    }
+  }
+
+  private async grantReviewersAccess(
+    candidate: Candidate,
+    project: GitlabProject,
+    pool: ReviewerPoolConfig,
+    reviewers: Reviewer[],
+  ) {
+    const accessUntil = this.getCalendar(candidate).addDays(
+      new Date(),
+      pool.reviewWindowInDays,
+    );
+    for (const reviewer of reviewers) {
+      try {
+        await this.grantReviewerAccess(project, reviewer, accessUntil);
+      } catch (error) {
+        console.warn(
+          `[Bot] Could not give reviewer with admin id ${reviewer.adminId} access to project ${project.id}`,
+          error,
+        );
+      }
+    }
+  }
+
+  // Reporters can read the code and the issues, but not push
+  private async grantReviewerAccess(
+    project: GitlabProject,
+    reviewer: Reviewer,
+    accessUntil: Date,
+  ) {
+    if (!reviewer.gitlabUsername) {
+      return;
+    }
+
+    const user = await this.gitlab.getUser(reviewer.gitlabUsername);
+    try {
+      await this.gitlab.addMaintainerToProject(
+        project.id,
+        String(user.id),
+        accessUntil,
+        GITLAB_ACCESS_LEVEL_REPORTER,
+      );
+    } catch (error) {
+      // Reviewers who are already members keep their access
+      if (!(error instanceof HttpError && error.statusCode === 409)) {
+        throw error;
+      }
+    }
+  }
+
+  // Reviewers look at the tagged commit, whatever is pushed after the submission
+  private async tagSubmission(project: GitlabProject): Promise<string> {
+    const fork = await this.gitlab.getProjectDetails(project.id);
+    const { commit } = await this.gitlab.getBranch(
+      fork.id,
+      fork.default_branch,
+    );
+    await this.gitlab.createProtectedTag(
+      fork.id,
+      SUBMISSION_TAG_NAME,
+      commit.id,
+    );
+    return commit.id;
+  }
+
+  // The candidate is the assignee of the homework issue
+  private async revokeCandidateWriteAccess(
+    project: GitlabProject,
+    issue: Issue,
+  ) {
+    if (!issue.assignee) {
+      return;
+    }
+
+    const userId = String(issue.assignee.id);
+    if (this.config.candidateAccessAfterSubmission === "remove") {
+      await this.gitlab.removeMemberFromProject(project.id, userId);
+    } else {
+      await this.gitlab.updateMemberAccessLevel(
+        project.id,
+        userId,
+        GITLAB_ACCESS_LEVEL_REPORTER,
+      );
+    }
+  }
+
+  // Forks created before the template base branch existed cannot get a merge request
+  // Opened in the anonymised copy if there is one, where the candidate's issue is left out
+  private async openReviewMergeRequest(
+    candidate: Candidate,
+    project: GitlabProject,
+    issue: Issue | undefined,
+    stats: SubmissionStats | undefined,
+  ) {
+    const fork = await this.gitlab.getProjectDetails(project.id);
+    const homework = this.findHomeworkToSend(candidate) ?? fork.name;
+
+    const mergeRequest = await this.gitlab.createMergeRequest(fork.id, {
+      source_branch: fork.default_branch,
+      target_branch: TEMPLATE_BASE_BRANCH_NAME,
+      title: buildReviewMergeRequestTitle(homework),
+      description: buildReviewMergeRequestDescription(homework, issue, stats),
+    });
+
+    const { mergeRequestFieldName } = this.getWorkflow(candidate);
+    if (mergeRequestFieldName === undefined) {
+      await this.recruitee.addNoteToCandidate(
+        candidate.id,
+        buildReviewMergeRequestNote(mergeRequest.web_url),
+      );
+      return;
+    }
+
+    const mergeRequestField = this.recruitee.getProfileFieldByName(
+      candidate,
+      mergeRequestFieldName,
+    );
+    if (!mergeRequestField || !isSingleLineField(mergeRequestField)) {
+      throw new Error(
+        `${mergeRequestFieldName} field is not configured correctly. Please check the profile fields template for candidates.`,
+      );
+    }
+    await this.recruitee.updateProfileField(candidate, mergeRequestField, [
+      mergeRequest.web_url,
+    ]);
+  }
+
+  // Reviewers only see the pseudonym in an internal project if there is an anonymised copy
+  private async openReviewIssue(
+    candidate: Candidate,
+    project: GitlabProject,
+    rubric: HomeworkRubric,
+  ) {
+    const reviewCopy = await this.store.get<ReviewCopy>(
+      REVIEW_COPY_COLLECTION,
+      String(candidate.id),
+    );
+    const projectId = encodeURIComponent(rubric.project);
+    const title = `${REVIEW_ISSUE_TITLE}: ${
+      reviewCopy?.pseudonym ?? project.name
+    }`;
+
+    const issue = await this.gitlab.createIssue(
+      projectId,
+      title,
+      buildRubricIssueDescription(rubric.criteria),
+    );
+    await this.store.set<PendingReview>(
+      REVIEW_ISSUE_COLLECTION,
+      String(candidate.id),
+      {
+        candidateId: candidate.id,
+        projectId,
+        issueIid: issue.iid,
+        issueUrl: issue.web_url,
+        criteria: rubric.criteria,
+      },
+    );
+    await this.recruitee.addNoteToCandidate(
+      candidate.id,
+      `📝 Review-Issue mit Bewertungsbogen: ${issue.web_url}`,
+    );
+  }
+
+  // Closing the review issue finishes the review, the rubric in the description and every comment counts
+  private async collectFinishedReviews() {
+    if (this.dryRun) {
+      return;
+    }
+
+    const botGitlabUser = await this.getBotGitlabUser();
+    const reviews = await this.store.values<PendingReview>(
+      REVIEW_ISSUE_COLLECTION,
+    );
+    for (const review of reviews) {
+      try {
+        await this.collectFinishedReview(review, botGitlabUser);
+      } catch (error) {
+        console.warn(
+          `[Bot] Could not collect the review of candidate with id ${review.candidateId}`,
+          error,
+        );
+      }
+    }
+  }
+
+  private async collectFinishedReview(
+    review: PendingReview,
+    botGitlabUser: GitlabUser,
+  ) {
+    const issue = await this.gitlab.getIssue(
+      review.projectId,
+      review.issueIid,
+    );
+    if (!issue.closed_at) {
+      return;
+    }
+
+    const candidate = await this.recruitee.getCandidateById(
+      review.candidateId,
+    );
+    // Remembered before the stage move, so a retry after a failure does not post the note twice
+    if (!review.notePosted) {
+      const notes = (await this.gitlab.getIssueNotes(
+        review.projectId,
+        review.issueIid,
+      )).filter((note) => !note.system && note.author.id !== botGitlabUser.id);
+      const description = issue.description ?? "";
+      const scores = [description, ...notes.map((note) => note.body)].map(
+        (text) => parseRubricScores(text, review.criteria),
+      );
+      const comments = [
+        getRubricComments(description, review.criteria, true),
+        ...notes.map((note) =>
+          getRubricComments(note.body, review.criteria, false)
+        ),
+      ].filter((comment) => comment !== "");
+
+      await this.recruitee.addNoteToCandidate(
+        candidate.id,
+        buildRubricNote(review.criteria, scores, comments, review.issueUrl),
+      );
+      await this.store.set<PendingReview>(
+        REVIEW_ISSUE_COLLECTION,
+        String(review.candidateId),
+        { ...review, notePosted: true },
+      );
+    }
+    await this.recruitee.proceedCandidateToStage(
+      candidate,
+      this.getWorkflow(candidate).reviewedStageTitle,
+    );
+    await this.completeReviewAssignment(candidate.id);
+    await this.store.delete(
+      REVIEW_ISSUE_COLLECTION,
+      String(review.candidateId),
+    );
+  }
 
-    const issueIid = 1;
-    const firstIssue = issues.filter((issue) => issue.iid === issueIid)[0];
-    if (!firstIssue) {
+  private async completeReviewAssignment(candidateId: number) {
+    const assignment = await this.store.get<ReviewAssignment>(
+      REVIEW_ASSIGNMENT_COLLECTION,
+      String(candidateId),
+    );
+    if (!assignment || assignment.completed) {
       return;
     }
 
-    let oldDueDate;
-    if (firstIssue.due_date) {
-      new Date(firstIssue.due_date);
+    const tasks = await this.recruitee.getCandidateTasks(candidateId);
+    if (
+      tasks.some((task) => task.id === assignment.taskId && !task.completed)
+    ) {
+      await this.recruitee.completeTask(assignment.taskId);
     }
-    const newDueDate = this.calculateDueDateFromTask(
-      homeworkExtensionTask,
-      oldDueDate,
+    await this.store.set<ReviewAssignment>(
+      REVIEW_ASSIGNMENT_COLLECTION,
+      String(candidateId),
+      { ...assignment, completed: true },
     );
+  }
 
-    const body = {
-      due_date: newDueDate,
-    };
-
-    // TODO: move function to GitLab module
-    await this.gitlab
-      .makeRequest<unknown>(`/projects/${project.id}/issues/${issueIid}`, {
-        method: "PUT",
-        body,
-      })
-      .catch(console.warn);
+  // Reviews count towards the capacity of the reviewers until their task is completed
+  private async updateReviewAssignments() {
+    if (this.dryRun) {
+      return;
+    }
 
-    console.log(
-      `[Bot] Extending homework of candidate with id ${candidate.id}. Extension Time: ${homeworkExtensionTask.due_date}`,
+    const assignments = await this.store.values<ReviewAssignment>(
+      REVIEW_ASSIGNMENT_COLLECTION,
     );
-  }
+    for (const assignment of assignments) {
+      if (assignment.completed) {
+        continue;
+      }
 
-  private async handleError(error: Error, candidate: Candidate) {
-    if (error instanceof GitlabError || error instanceof RecruiteeError) {
-      await this.notifyAboutError(candidate, error.message);
-    } else if (error instanceof HttpError) {
-      await this.notifyAboutError(
-        candidate,
-        `${EmojiErrorCodes.UNEXPECTED_HTTP} Unerwarteter HTTP-Fehler mit Code ${error.statusCode}. Für mehr Infos bitte in die Logs schauen.`,
-        error,
-      );
-    } else {
-      await this.notifyAboutError(
-        candidate,
-        `${EmojiErrorCodes.UNEXPECTED} Unerwarteter Fehler. Bitte in die Logs schauen.`,
-        error,
+      const tasks = await this.recruitee.getCandidateTasks(
+        assignment.candidateId,
       );
+      const task = tasks.find((task) => task.id === assignment.taskId);
+      // A deleted task is not going to be completed anymore
+      if (!task || task.completed) {
+        await this.store.set<ReviewAssignment>(
+          REVIEW_ASSIGNMENT_COLLECTION,
+          String(assignment.candidateId),
+          { ...assignment, completed: true },
+        );
+      }
     }
-
-    await this.recruitee.addTagToCandidate(candidate, "Bot-Fehler aufgetreten");
-    await this.recruitee.createCandidateTask(candidate, ERROR_TASK_TITLE);
   }
 
-  private async sendAllPendingHomeworks(candidates: Candidate[]) {
-    await Promise.all(
-      candidates.map((candidate) =>
-        this.sendHomeworkForCandidate(candidate).catch((error) =>
-          this.handleError(error, candidate)
-        )
-      ),
+  // Runs the hidden tests of the homework against the submitted commit, the result is reported once the pipeline has finished
+  private async startEvaluation(
+    candidate: Candidate,
+    project: GitlabProject,
+    evaluation: HomeworkEvaluation,
+    submissionSha: string | undefined,
+  ) {
+    const fork = await this.gitlab.getProjectDetails(project.id);
+    // Without the tag the branch is evaluated as it is now
+    const sha = submissionSha ??
+      (await this.gitlab.getBranch(fork.id, fork.default_branch)).commit.id;
+
+    const pipeline = await this.pipelines.triggerPipeline(
+      evaluation.project,
+      evaluation.ref,
+      {
+        CANDIDATE_PROJECT_ID: String(fork.id),
+        CANDIDATE_REPOSITORY_URL: fork.http_url_to_repo,
+        SUBMISSION_SHA: sha,
+      },
     );
-  }
-
-  private async checkForClosedIssues(candidates: Candidate[]) {
-    const homeworkSentCandidates = (
-      await Promise.all(
-        candidates.map(async (candidate) => {
-          const placement = candidate.placements[0];
-          if (!placement || !placement.stage_id) return;
-          try {
-            const stage = await this.recruitee.getStageByName(
-              HOMEWORK_SENT_STAGE_TITLE,
-              placement.offer_id,
-            );
-            if (placement.stage_id == stage.id) {
-              return candidate;
-            }
-          } catch (e) {
-            this.handleError(e, candidate);
-          }
-        }),
-      )
-    ).filter((c): c is Candidate => c !== undefined);
-
-    await Promise.all(
-      homeworkSentCandidates.map((candidate) =>
-        this.handleClosedCandidateIssues(candidate).catch((error) =>
-          this.handleError(error, candidate)
-        )
-      ),
+    await this.store.set<PendingEvaluation>(
+      EVALUATION_COLLECTION,
+      String(candidate.id),
+      {
+        candidateId: candidate.id,
+        project: evaluation.project,
+        pipelineId: pipeline.id,
+        pipelineUrl: pipeline.web_url,
+        sha,
+      },
+    );
+    await this.recruitee.addNoteToCandidate(
+      candidate.id,
+      buildEvaluationStartedNote(sha, pipeline.web_url),
     );
   }
 
-  private async handleClosedCandidateIssues(candidate: Candidate) {
-    let project: GitlabProject;
-    let botGitlabUser: GitlabUser;
-    let closedIssuesByBot: Issue[];
-    try {
-      project = await this.getProjectByCandidate(candidate);
-      botGitlabUser = await this.gitlab.getOwnUserInfo();
-      closedIssuesByBot = await this.gitlab.getProjectIssues(
-        project.id,
-        "closed",
-        botGitlabUser,
-      );
-    } catch (e) {
-      console.warn(e.message);
+  private async reportFinishedEvaluations() {
+    if (this.dryRun) {
       return;
     }
 
-    if (!closedIssuesByBot || closedIssuesByBot.length < 1) {
-      return;
-    }
-    if (closedIssuesByBot.length > 1) {
-      throw Error(
-        `There are multiple closed issues created by the Bot in project ${project.id}`,
-      );
+    const evaluations = await this.store.values<PendingEvaluation>(
+      EVALUATION_COLLECTION,
+    );
+    for (const evaluation of evaluations) {
+      // One failing evaluation must not keep the others from being reported
+      try {
+        await this.reportFinishedEvaluation(evaluation);
+      } catch (error) {
+        console.warn(
+          `[Bot] Could not report the evaluation of candidate with id ${evaluation.candidateId}`,
+          error,
+        );
+      }
     }
+  }
 
-    if (this.dryRun) {
-      console.log(
-        `[Bot/dry-run] Candidate ${candidate.name} is done with their homework at ${project}`,
-      );
+  private async reportFinishedEvaluation(evaluation: PendingEvaluation) {
+    const pipeline = await this.pipelines.getPipeline(
+      evaluation.project,
+      evaluation.pipelineId,
+    );
+    if (!this.pipelines.isFinished(pipeline)) {
       return;
     }
 
-    await this.recruitee.proceedCandidateToStage(
-      candidate,
-      HOMEWORK_RECEIVED_STAGE_TITLE,
-    );
-    await this.recruitee.createCandidateTask(
-      candidate,
-      TASK_ASSIGN_MK_TEXT,
-      Deno.env.get("RECRUITEE_HR_ID"),
-    );
+    const testReport = ["success", "failed"].includes(pipeline.status)
+      ? await this.pipelines.getTestReport(
+        evaluation.project,
+        evaluation.pipelineId,
+      )
+      : undefined;
     await this.recruitee.addNoteToCandidate(
-      candidate.id,
-      "📥 Hausaufgabe eingegangen.",
+      evaluation.candidateId,
+      buildEvaluationResultNote(pipeline, testReport),
+    );
+    await this.store.delete(
+      EVALUATION_COLLECTION,
+      String(evaluation.candidateId),
     );
   }
 
+  // Answers are the comments of the candidate and what they added to the issue description
+  private async copyIssueAnswers(
+    candidate: Candidate,
+    project: GitlabProject,
+    issue: Issue,
+    homework: HomeworkDefinition | undefined,
+  ): Promise<string> {
+    const locale = this.recruitee.getCandidateLocale(candidate);
+    // The default questions are asked without a known homework
+    const questions = this.getIssueQuestions(homework, locale);
+
+    const issueTemplate = getMessages(locale).gitlabIssueTemplate({
+      title: HOMEWORK_ISSUE_TITLE,
+      applicantName: candidate.name,
+      questions,
+    });
+    const notes = await this.gitlab.getIssueNotes(project.id, issue.iid);
+    const answers = [
+      getTextAddedToTemplate(issueTemplate, issue.description ?? ""),
+      ...notes
+        .filter((note) => !note.system && note.author.id === issue.assignee?.id)
+        .map((note) => note.body.trim()),
+    ].filter((text) => text !== "");
+
+    const note = buildAnswersNote(questions, answers);
+    await this.recruitee.addNoteToCandidate(candidate.id, note);
+    return note;
+  }
+
+  private getIssueQuestions(
+    homework: HomeworkDefinition | undefined,
+    locale: Locale,
+  ): string[] {
+    return homework?.issueQuestions[locale] ??
+      getMessages(locale).defaultIssueQuestions;
+  }
+
   private async getProjectByCandidate(candidate: Candidate) {
-    const projectUrlField = this.recruitee.getProfileFieldByName(
-      candidate,
-      GITLAB_REPO_FIELD_NAME,
-    );
-    if (
-      projectUrlField != undefined &&
-      (projectUrlField as CandidateSingleLineField).values.length != 0
-    ) {
-      const projectUrl = (projectUrlField as CandidateSingleLineField).values[0]
-        .text;
+    const projectUrl = this.getGitlabRepoUrl(candidate);
+    if (projectUrl != undefined) {
       const projectPath = projectUrl.replace(GITHUB_BASE_URL, "");
       const splittedPath = projectPath.split("/");
       return await this.gitlab.getHomeworkProject(
@@ -289,6 +1833,19 @@ export default class Bot {
     }
   }
 
+  private getGitlabRepoUrl(candidate: Candidate): string | undefined {
+    const projectUrlField = this.recruitee.getProfileFieldByName(
+      candidate,
+      this.getWorkflow(candidate).gitlabRepoFieldName,
+    );
+    if (
+      projectUrlField != undefined &&
+      (projectUrlField as CandidateSingleLineField).values.length != 0
+    ) {
+      return (projectUrlField as CandidateSingleLineField).values[0].text;
+    }
+  }
+
   private async notifyAboutError(
     candidate: Candidate,
     message: string,
@@ -321,81 +1878,149 @@ export default class Bot {
     }
 
     const homework = this.getHomeworkToSend(candidate);
+    const homeworkDefinition = this.getHomeworkDefinition(homework);
 
     const gitlabUsername = this.getGitlabUsername(candidate);
 
     const gitlabUser = await this.gitlab.getUser(gitlabUsername);
 
-    const {
-      issue: gitlabIssue,
-      fork: gitlabFork,
-      dueDate,
-    } = await this.createHomeworkProjectFork(
-      candidate,
-      gitlabUser,
-      homework,
-      homeworkTask,
-    );
+    const progress = await this.getHomeworkProgress(candidate, homeworkTask);
+    if (progress.fork) {
+      console.log(
+        `[Bot] Resuming homework of candidate with id ${candidate.id} for fork ${progress.fork.web_url}`,
+      );
+    }
 
     const shouldSendMail = this.recruitee.shouldSendMail(candidate);
+    const rollback = new Rollback();
 
-    if (shouldSendMail) {
-      await this.notifyCandidate(
+    let provisionedHomework: {
+      issue: Issue;
+      fork: GitlabProject;
+      dueDate: Date;
+    };
+    try {
+      provisionedHomework = await this.createHomeworkProjectFork(
+        candidate,
+        gitlabUser,
+        homeworkDefinition,
+        homeworkTask,
+        progress,
+        rollback,
+      );
+
+      if (shouldSendMail && !progress.mailSent) {
+        await this.notifyCandidate(
+          candidate,
+          provisionedHomework.issue,
+          provisionedHomework.fork,
+          this.getCalendar(candidate).lastDayBefore(
+            provisionedHomework.dueDate,
+          ),
+          homeworkDefinition.mailTemplate,
+        );
+      }
+    } catch (error) {
+      throw await this.rollbackHomeworkProvisioning(
+        error,
         candidate,
-        gitlabIssue,
-        gitlabFork,
-        addDaysToDate(dueDate, -1),
-      ).catch((error) => this.handleError(error, candidate));
+        homeworkTask,
+        rollback,
+      );
+    }
+
+    if (shouldSendMail && !progress.mailSent) {
+      await this.recordHomeworkProgress(candidate, homeworkTask, progress, {
+        mailSent: true,
+      });
     }
 
+    const { fork: gitlabFork, dueDate } = provisionedHomework;
+
     await this.finalizeCandidate(
       candidate,
       homeworkTask,
       homework,
       dueDate,
       shouldSendMail,
+      progress,
     );
 
     if (this.deleteProjectInTheEnd) {
       await this.deleteGitlabProjectAndRemoveRepoField(
-        candidate.id,
+        candidate,
         gitlabFork.id,
       );
     }
   }
 
-  private async deleteGitlabProjectAndRemoveRepoField(
+  // Transient errors keep the recorded progress, so the next run can resume instead of starting over.
+  private async rollbackHomeworkProvisioning(
+    error: Error,
+    candidate: Candidate,
+    homeworkTask: Task,
+    rollback: Rollback,
+  ): Promise<Error> {
+    if (!isPermanentError(error)) {
+      return error;
+    }
+
+    console.warn(
+      `[Bot] Rolling back homework of candidate with id ${candidate.id} after permanent failure`,
+    );
+    const summary = await rollback.run();
+    await this.store.delete(
+      HOMEWORK_PROGRESS_COLLECTION,
+      `${candidate.id}:${homeworkTask.id}`,
+    );
+
+    return new RolledBackError(error, summary);
+  }
+
+  private async clearProfileFieldsOfCandidate(
     candidateId: number,
-    gitlabForkId: string,
+    fieldNames: string[],
   ) {
     // Retrieve candidate to get the most up-to-date profile field information
     const candidate = await this.recruitee.getCandidateById(candidateId);
-    await this.gitlab.deleteProject(gitlabForkId);
-    const repoField = this.recruitee.getProfileFieldByName(
-      candidate,
-      GITLAB_REPO_FIELD_NAME,
-    );
 
-    if (repoField !== undefined) {
-      await this.recruitee.clearProfileField(candidate, repoField);
+    for (const fieldName of fieldNames) {
+      const field = this.recruitee.getProfileFieldByName(candidate, fieldName);
+      if (field !== undefined) {
+        await this.recruitee.clearProfileField(candidate, field);
+      }
     }
   }
 
+  private async deleteGitlabProjectAndRemoveRepoField(
+    candidate: Candidate,
+    gitlabForkId: string,
+  ) {
+    await this.gitlab.deleteProject(gitlabForkId);
+    await this.clearProfileFieldsOfCandidate(candidate.id, [
+      this.getWorkflow(candidate).gitlabRepoFieldName,
+    ]);
+  }
+
   private async finalizeCandidate(
     candidate: Candidate,
     homeworkTask: Task,
     homework: string,
     dueDate: Date,
     shouldSendMail: boolean,
+    progress: HomeworkProgress,
   ) {
-    await this.recruitee.completeTask(homeworkTask.id);
+    if (progress.taskCompleted) {
+      return;
+    }
 
     await this.recruitee.proceedCandidateToStage(
       candidate,
-      "Hausaufgabe versendet",
+      this.getWorkflow(candidate).homeworkSentStageTitle,
     );
 
     const localizedDueDate = dueDate.toLocaleDateString("de-DE", {
+      timeZone: getTimezone(),
       weekday: "long",
       day: "numeric",
       month: "long",
@@ -408,7 +2033,35 @@ export default class Bot {
       }. Fällig am ${localizedDueDate}.`,
     );
 
-    // TODO: Create additional Tasks, that need to be done. See [Issue #6](https://github.com/hacking-talents/ht-bewerbungsbot/issues/6)
+    if (!progress.followUpTasksCreated) {
+      await this.createFollowUpTasks(candidate, dueDate);
+      await this.recordHomeworkProgress(candidate, homeworkTask, progress, {
+        followUpTasksCreated: true,
+      });
+    }
+
+    // Completing the task comes last, as an open task is what makes the bot resume
+    await this.recruitee.completeTask(homeworkTask.id);
+    await this.recordHomeworkProgress(candidate, homeworkTask, progress, {
+      taskCompleted: true,
+    });
+  }
+
+  private async createFollowUpTasks(candidate: Candidate, dueDate: Date) {
+    const { followUpTasks } = getOfferConfig(
+      this.config,
+      candidate.placements[0].offer_id,
+    );
+    const calendar = this.getCalendar(candidate);
+
+    for (const task of followUpTasks) {
+      await this.recruitee.createCandidateTask(
+        candidate,
+        task.title,
+        task.adminIds,
+        calendar.addDays(dueDate, task.dueInDaysAfterHomework),
+      );
+    }
   }
 
   private async notifyCandidate(
@@ -416,6 +2069,7 @@ export default class Bot {
     gitlabIssue: Issue,
     gitlabFork: GitlabProject,
     dueDate: Date,
+    mailTemplate: string,
   ) {
     const address = this.recruitee.getCandidateSalutation(candidate);
     const signature = this.recruitee.getSignature(candidate);
@@ -439,77 +2093,176 @@ export default class Bot {
         homeworkDueDate: dueDate,
         mk_signature: signature,
       },
+      mailTemplate,
+      this.recruitee.getCandidateLocale(candidate),
     );
   }
 
   private async createHomeworkProjectFork(
     candidate: Candidate,
     gitlabUser: GitlabUser,
-    homework: string,
+    homework: HomeworkDefinition,
     homeworkTask: Task,
+    progress: HomeworkProgress,
+    rollback: Rollback,
   ): Promise<{ issue: Issue; fork: GitlabProject; dueDate: Date }> {
-    const homeworkProject = await this.gitlab.getTemplateProject(homework);
+    if (!progress.fork || !progress.dueDate) {
+      const homeworkProject = await this.gitlab.getTemplateProject(
+        homework.templateProject,
+      );
 
-    const forkName = sanitizeRepositoryName(
-      `homework-${gitlabUser.username}-${
-        Math.floor(
-          Math.random() * 1000000000000,
-        )
-      }`,
-    );
-    const fork = await this.gitlab.forkHomework(homeworkProject!.id, forkName);
+      const forkName = sanitizeRepositoryName(
+        `${HOMEWORK_FORK_PREFIX}${gitlabUser.username}-${
+          Math.floor(
+            Math.random() * 1000000000000,
+          )
+        }`,
+      );
+      const fork = await this.gitlab.forkHomework(
+        homeworkProject!.id,
+        forkName,
+        homework.solutionBranches,
+      );
 
-    const dueDate = this.calculateDueDateFromTask(homeworkTask);
+      await this.recordHomeworkProgress(candidate, homeworkTask, progress, {
+        fork,
+        dueDate: this.calculateDueDateFromTask(
+          homeworkTask,
+          homework.durationInDays,
+          this.getCalendar(candidate),
+        ).toISOString(),
+      });
+    }
 
-    await this.gitlab.addMaintainerToProject(
-      fork.id,
-      String(gitlabUser.id),
-      dueDate,
+    const fork = progress.fork!;
+    const dueDate = new Date(progress.dueDate!);
+    rollback.register(
+      `Fork "${fork.name}" gelöscht`,
+      () => this.gitlab.deleteProject(fork.id),
     );
 
-    const issue = await this.gitlab.createHomeworkIssue(
-      fork.id,
-      String(gitlabUser.id),
-      dueDate,
-      { title: "Hausaufgabe abschließen", applicantName: candidate.name },
+    if (!progress.memberAdded) {
+      await this.gitlab.addMaintainerToProject(
+        fork.id,
+        String(gitlabUser.id),
+        dueDate,
+      );
+      await this.recordHomeworkProgress(candidate, homeworkTask, progress, {
+        memberAdded: true,
+      });
+    }
+    rollback.register(
+      `Zugriff für GitLab-User "${gitlabUser.username}" entfernt`,
+      () => this.gitlab.removeMemberFromProject(fork.id, String(gitlabUser.id)),
     );
 
-    await this.setGitlabRepoProfileField(candidate, fork.web_url);
-    await this.setHomeworkCorrectionGuideProfileField(
+    if (!progress.issue) {
+      const locale = this.recruitee.getCandidateLocale(candidate);
+      const issue = await this.gitlab.createHomeworkIssue(
+        fork.id,
+        String(gitlabUser.id),
+        dueDate,
+        {
+          title: HOMEWORK_ISSUE_TITLE,
+          applicantName: candidate.name,
+          questions: this.getIssueQuestions(homework, locale),
+        },
+        locale,
+      );
+      await this.recordHomeworkProgress(candidate, homeworkTask, progress, {
+        issue,
+      });
+    }
+
+    // Registered upfront, as the fields might be set only partially
+    const { gitlabRepoFieldName, correctionGuideFieldName } = this.getWorkflow(
       candidate,
-      Deno.env.get("CORRECTION_GUIDE_LINK"),
     );
+    rollback.register(
+      `Profilfeld "${gitlabRepoFieldName}" geleert`,
+      () =>
+        this.clearProfileFieldsOfCandidate(
+          candidate.id,
+          correctionGuideFieldName
+            ? [gitlabRepoFieldName, correctionGuideFieldName]
+            : [gitlabRepoFieldName],
+        ),
+    );
+
+    if (!progress.fieldsSet) {
+      await this.setGitlabRepoProfileField(candidate, fork.web_url);
+      await this.rememberHomeworkProject(candidate, fork.web_url);
+      await this.setHomeworkCorrectionGuideProfileField(
+        candidate,
+        homework.correctionGuideLink,
+      );
+      await this.recordHomeworkProgress(candidate, homeworkTask, progress, {
+        fieldsSet: true,
+      });
+    }
+
+    return { issue: progress.issue!, fork, dueDate };
+  }
+
+  private async getHomeworkProgress(
+    candidate: Candidate,
+    homeworkTask: Task,
+  ): Promise<HomeworkProgress> {
+    return (await this.store.get<HomeworkProgress>(
+      HOMEWORK_PROGRESS_COLLECTION,
+      `${candidate.id}:${homeworkTask.id}`,
+    )) ?? {};
+  }
 
-    return { issue, fork, dueDate };
+  private async recordHomeworkProgress(
+    candidate: Candidate,
+    homeworkTask: Task,
+    progress: HomeworkProgress,
+    step: HomeworkProgress,
+  ) {
+    Object.assign(progress, step);
+    await this.store.set(
+      HOMEWORK_PROGRESS_COLLECTION,
+      `${candidate.id}:${homeworkTask.id}`,
+      progress,
+    );
   }
 
-  private calculateDueDateFromTask(task: Task, fromDate?: Date): Date {
+  // A due date set on the task is taken as is, only calculated ones follow the calendar of the offer
+  private calculateDueDateFromTask(
+    task: Task,
+    durationInDays: number,
+    calendar: Calendar,
+    fromDate?: Date,
+  ): Date {
     let dueDate;
 
     if (task.due_date === null) {
-      dueDate = addDaysToDate(
+      dueDate = calendar.addDays(
         new Date(fromDate ? fromDate : task.created_at),
-        DEFAULT_HOMEWORK_DURATION_IN_DAYS,
+        durationInDays,
       );
     } else {
       dueDate = new Date(task.due_date);
     }
 
-    return dueDate;
+    // Access expires with the due date, so the homework can be worked on until the end of the day before
+    return endOfDay(dueDate);
   }
 
   private async setGitlabRepoProfileField(
     candidate: Candidate,
     content: string,
   ): Promise<void> {
+    const { gitlabRepoFieldName } = this.getWorkflow(candidate);
     const repoField = this.recruitee.getProfileFieldByName(
       candidate,
-      GITLAB_REPO_FIELD_NAME,
+      gitlabRepoFieldName,
     );
 
     if (!repoField || !isSingleLineField(repoField)) {
       throw new Error(
-        `${GITLAB_USERNAME_FIELD_NAME} field is not configured correctly. Please check the profile fields template for candidates.`,
+        `${gitlabRepoFieldName} field is not configured correctly. Please check the profile fields template for candidates.`,
       );
     }
 
@@ -520,16 +2273,16 @@ export default class Bot {
     candidate: Candidate,
     content: string | undefined,
   ): Promise<void> {
-    const fieldName = Deno.env.get("CORRECTION_GUIDE_PROFILE_FIELD_NAME");
+    const fieldName = this.getWorkflow(candidate).correctionGuideFieldName;
     if (content === undefined) {
       console.warn(
-        "WARNING: CORRECTION_GUIDE_LINK is not set. Skipping ProfileField update.",
+        "WARNING: No correction guide link configured for this homework. Skipping ProfileField update.",
       );
       return;
     }
     if (fieldName === undefined) {
       console.warn(
-        "WARNING: CORRECTION_GUIDE_PROFILE_FIELD_NAME is not set. Skipping ProfileField update.",
+        "WARNING: No correction guide field configured. Skipping ProfileField update.",
       );
       return;
     }
@@ -548,14 +2301,15 @@ export default class Bot {
   }
 
   private getGitlabUsername(candidate: Candidate): string {
+    const { gitlabUsernameFieldName } = this.getWorkflow(candidate);
     const gitlabUsernameField = this.recruitee.getProfileFieldByName(
       candidate,
-      GITLAB_USERNAME_FIELD_NAME,
+      gitlabUsernameFieldName,
     );
 
     if (!gitlabUsernameField || !isSingleLineField(gitlabUsernameField)) {
       throw new Error(
-        `${GITLAB_USERNAME_FIELD_NAME} field is not configured correctly. Please check the profile fields template for candidates.`,
+        `${gitlabUsernameFieldName} field is not configured correctly. Please check the profile fields template for candidates.`,
       );
     }
 
@@ -568,15 +2322,62 @@ export default class Bot {
     return gitlabUsernameField.values[0].text.replace(/\s+/g, "");
   }
 
+  private getWorkflow(candidate: Candidate): WorkflowConfig {
+    return getWorkflowConfig(this.config, candidate.placements[0]?.offer_id);
+  }
+
+  private getCalendar(candidate: Candidate): Calendar {
+    const placement = candidate.placements[0];
+    return placement
+      ? new Calendar(getOfferConfig(this.config, placement.offer_id).calendar)
+      : new Calendar();
+  }
+
+  private getHomeworkDefinition(homework: string): HomeworkDefinition {
+    if (!this.homeworkCatalog) {
+      return defaultHomeworkDefinition(
+        homework,
+        Deno.env.get("CORRECTION_GUIDE_LINK"),
+      );
+    }
+
+    const homeworkDefinition = this.homeworkCatalog[homework];
+    if (!homeworkDefinition) {
+      throw new RecruiteeError(
+        `${EmojiErrorCodes.PROJECT_NOT_FOUND} Die Hausaufgabe \"${homework}\" ist nicht im Hausaufgaben-Katalog eingetragen.`,
+      );
+    }
+    return homeworkDefinition;
+  }
+
+  private findHomeworkDefinition(
+    candidate: Candidate,
+  ): HomeworkDefinition | undefined {
+    try {
+      return this.getHomeworkDefinition(this.getHomeworkToSend(candidate));
+    } catch {
+      return undefined;
+    }
+  }
+
+  private findHomeworkToSend(candidate: Candidate): string | undefined {
+    try {
+      return this.getHomeworkToSend(candidate);
+    } catch {
+      return undefined;
+    }
+  }
+
   private getHomeworkToSend(candidate: Candidate): string {
+    const { homeworkFieldName } = this.getWorkflow(candidate);
     const homeworkField = this.recruitee.getProfileFieldByName(
       candidate,
-      HOMEWORK_FIELD_NAME,
+      homeworkFieldName,
     );
 
     if (!homeworkField || !isDropdownField(homeworkField)) {
       throw new Error(
-        `${HOMEWORK_FIELD_NAME} field exists, but is not of type 'dropdown'. Please check the profile fields template for candidates.`,
+        `${homeworkFieldName} field exists, but is not of type 'dropdown'. Please check the profile fields template for candidates.`,
       );
     }
 
@@ -590,17 +2391,26 @@ export default class Bot {
   }
 
   private async getHomeworkTask(candidate: Candidate): Promise<Task | null> {
-    return await this.getTaskByTitle(candidate, HOMEWORK_TASK_TITLE);
+    return await this.getTaskByTitle(
+      candidate,
+      this.getWorkflow(candidate).homeworkTaskTitle,
+    );
   }
 
   private async getHomeworkExtensionTask(
     candidate: Candidate,
   ): Promise<Task | null> {
-    return await this.getTaskByTitle(candidate, HOMEWORK_EXTENSION_TITLE);
+    return await this.getTaskByTitle(
+      candidate,
+      this.getWorkflow(candidate).homeworkExtensionTaskTitle,
+    );
   }
 
   private async hasUnfinishedErrorTask(candidate: Candidate): Promise<boolean> {
-    return (await this.getTaskByTitle(candidate, ERROR_TASK_TITLE)) !== null;
+    return (await this.getTaskByTitle(
+      candidate,
+      this.getWorkflow(candidate).errorTaskTitle,
+    )) !== null;
   }
 
   private async getTaskByTitle(
@@ -0,0 +1,37 @@
+import { assertEquals } from "https://deno.land/std@0.100.0/testing/asserts.ts";
+import {
+  buildEvaluationResultNote,
+  buildEvaluationStartedNote,
+} from "./evaluation.ts";
+
+const url = "https://gitlab.com/evaluation/backend/-/pipelines/7";
+
+Deno.test("buildEvaluationStartedNote names the submitted commit", () => {
+  assertEquals(
+    buildEvaluationStartedNote("0123456789abcdef", url),
+    `🧪 Versteckte Tests für Commit 01234567 gestartet: ${url}`,
+  );
+});
+
+Deno.test("buildEvaluationResultNote reports passed and failed tests", () => {
+  assertEquals(
+    buildEvaluationResultNote(
+      { id: 7, status: "failed", web_url: url },
+      {
+        total_count: 45,
+        success_count: 41,
+        failed_count: 2,
+        error_count: 1,
+        skipped_count: 1,
+      },
+    ),
+    `🧪 Versteckte Tests: 41 von 45 bestanden, 3 fehlgeschlagen, 1 übersprungen.\n${url}`,
+  );
+});
+
+Deno.test("buildEvaluationResultNote reports pipelines without tests", () => {
+  assertEquals(
+    buildEvaluationResultNote({ id: 7, status: "canceled", web_url: url }),
+    `🧪 Die versteckten Tests wurden nicht ausgeführt (Pipeline-Status "canceled"): ${url}`,
+  );
+});
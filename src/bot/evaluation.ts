@@ -0,0 +1,26 @@
+import { Pipeline, TestReport } from "../evaluation/types.ts";
+
+export function buildEvaluationStartedNote(
+  sha: string,
+  pipelineUrl: string,
+): string {
+  return `🧪 Versteckte Tests für Commit ${
+    sha.slice(0, 8)
+  } gestartet: ${pipelineUrl}`;
+}
+
+// Without a test report the pipeline was canceled or skipped before running the tests
+export function buildEvaluationResultNote(
+  pipeline: Pipeline,
+  testReport?: TestReport,
+): string {
+  if (!testReport) {
+    return `🧪 Die versteckten Tests wurden nicht ausgeführt (Pipeline-Status "${pipeline.status}"): ${pipeline.web_url}`;
+  }
+
+  const failed = testReport.failed_count + testReport.error_count;
+  return [
+    `🧪 Versteckte Tests: ${testReport.success_count} von ${testReport.total_count} bestanden, ${failed} fehlgeschlagen, ${testReport.skipped_count} übersprungen.`,
+    pipeline.web_url,
+  ].join("\n");
+}
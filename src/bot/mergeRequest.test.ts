@@ -0,0 +1,49 @@
+import { assertEquals } from "https://deno.land/std@0.100.0/testing/asserts.ts";
+import { Issue } from "../gitlab/types.ts";
+import {
+  buildReviewMergeRequestDescription,
+  buildReviewMergeRequestTitle,
+} from "./mergeRequest.ts";
+
+const user = { id: 1, username: "alice", name: "Alice" };
+const issue: Issue = {
+  iid: 1,
+  title: "Hausaufgabe abschließen",
+  assignee: user,
+  author: user,
+  // deno-lint-ignore camelcase
+  web_url: "https://gitlab.com/homework/homework-alice-1/-/issues/1",
+};
+
+Deno.test("buildReviewMergeRequestTitle names the homework", () => {
+  assertEquals(
+    buildReviewMergeRequestTitle("Backend"),
+    'Review: Hausaufgabe "Backend"',
+  );
+});
+
+Deno.test("buildReviewMergeRequestDescription summarises the submission", () => {
+  assertEquals(
+    buildReviewMergeRequestDescription("Backend", issue, {
+      commitCount: 0,
+      changedFiles: 3,
+      languages: { TypeScript: 100 },
+    }),
+    [
+      'Alle Änderungen der Abgabe gegenüber der Vorlage der Hausaufgabe "Backend". Bitte Anmerkungen direkt im Diff hinterlassen und den Merge Request nicht mergen.',
+      "",
+      `Hausaufgaben-Issue: ${issue.web_url}`,
+      "",
+      "- Commits: keine",
+      "- Geänderte Dateien gegenüber der Vorlage: 3",
+      "- Sprachen: TypeScript 100 %",
+    ].join("\n"),
+  );
+});
+
+Deno.test("buildReviewMergeRequestDescription leaves out the issue of an anonymised copy", () => {
+  assertEquals(
+    buildReviewMergeRequestDescription("Backend", undefined),
+    'Alle Änderungen der Abgabe gegenüber der Vorlage der Hausaufgabe "Backend". Bitte Anmerkungen direkt im Diff hinterlassen und den Merge Request nicht mergen.',
+  );
+});
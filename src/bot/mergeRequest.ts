@@ -0,0 +1,30 @@
+import { Issue, SubmissionStats } from "../gitlab/types.ts";
+import { formatSubmissionStats } from "./submission.ts";
+
+export function buildReviewMergeRequestTitle(homework: string): string {
+  return `Review: Hausaufgabe "${homework}"`;
+}
+
+// The merge request only exists for its diff, merging it would change the base of the review.
+// In an anonymised copy there is no issue to link, the candidate's one would reveal who they are.
+export function buildReviewMergeRequestDescription(
+  homework: string,
+  issue: Issue | undefined,
+  stats?: SubmissionStats,
+): string {
+  const lines = [
+    `Alle Änderungen der Abgabe gegenüber der Vorlage der Hausaufgabe "${homework}". Bitte Anmerkungen direkt im Diff hinterlassen und den Merge Request nicht mergen.`,
+  ];
+  if (issue) {
+    lines.push("", `Hausaufgaben-Issue: ${issue.web_url}`);
+  }
+  if (stats) {
+    lines.push("", ...formatSubmissionStats(stats));
+  }
+
+  return lines.join("\n");
+}
+
+export function buildReviewMergeRequestNote(webUrl: string): string {
+  return `🔀 Merge Request mit den Änderungen der Abgabe: ${webUrl}`;
+}
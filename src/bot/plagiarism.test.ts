@@ -0,0 +1,40 @@
+import { assertEquals } from "https://deno.land/std@0.100.0/testing/asserts.ts";
+import { buildPlagiarismNote } from "./plagiarism.ts";
+
+Deno.test("buildPlagiarismNote lists suspicious repositories by similarity", () => {
+  assertEquals(
+    buildPlagiarismNote([
+      {
+        repository: "homework-alice-1",
+        url: "https://gitlab.com/homework/homework-alice-1",
+        similarity: 0.62,
+      },
+      {
+        repository: "homework-bob-2",
+        url: "https://gitlab.com/homework/homework-bob-2",
+        similarity: 0.1,
+      },
+      {
+        repository: "backend (Branch solution)",
+        url: "https://gitlab.com/templates/backend/-/tree/solution",
+        similarity: 0.857,
+      },
+    ], 2),
+    [
+      "⚠️ Ähnlichkeitsprüfung: Die Abgabe stimmt in großen Teilen mit folgenden Repositories überein, bitte im Review prüfen:",
+      "- backend (Branch solution): 86 % (https://gitlab.com/templates/backend/-/tree/solution)",
+      "- homework-alice-1: 62 % (https://gitlab.com/homework/homework-alice-1)",
+    ].join("\n"),
+  );
+});
+
+Deno.test("buildPlagiarismNote without suspicious matches", () => {
+  assertEquals(
+    buildPlagiarismNote([{
+      repository: "homework-bob-2",
+      url: "https://gitlab.com/homework/homework-bob-2",
+      similarity: 0.2,
+    }], 1),
+    "🔍 Ähnlichkeitsprüfung: Keine auffälligen Übereinstimmungen mit 1 anderen Abgaben und der Musterlösung.",
+  );
+});
@@ -0,0 +1,31 @@
+export type PlagiarismMatch = {
+  repository: string;
+  url: string;
+  // Share of the submission found in the repository, between 0 and 1
+  similarity: number;
+};
+
+export const SUSPICIOUS_SIMILARITY = 0.5;
+
+// Flags submissions sharing large parts with other forks of the template or with its solution
+export function buildPlagiarismNote(
+  matches: PlagiarismMatch[],
+  comparedSubmissions: number,
+): string {
+  const suspicious = matches
+    .filter((match) => match.similarity >= SUSPICIOUS_SIMILARITY)
+    .sort((a, b) => b.similarity - a.similarity);
+
+  if (suspicious.length === 0) {
+    return `🔍 Ähnlichkeitsprüfung: Keine auffälligen Übereinstimmungen mit ${comparedSubmissions} anderen Abgaben und der Musterlösung.`;
+  }
+
+  return [
+    "⚠️ Ähnlichkeitsprüfung: Die Abgabe stimmt in großen Teilen mit folgenden Repositories überein, bitte im Review prüfen:",
+    ...suspicious.map((match) =>
+      `- ${match.repository}: ${
+        Math.round(match.similarity * 100)
+      } % (${match.url})`
+    ),
+  ].join("\n");
+}
@@ -0,0 +1,79 @@
+import {
+  assert,
+  assertEquals,
+} from "https://deno.land/std@0.100.0/testing/asserts.ts";
+import {
+  anonymizeText,
+  buildReviewCopyNote,
+  generatePseudonym,
+  getPseudonymEmail,
+  getReviewRepositoryName,
+} from "./review.ts";
+
+Deno.test("generatePseudonym does not reveal anything about the candidate", () => {
+  assert(/^Kandidat-[0-9A-F]{6}$/.test(generatePseudonym()));
+});
+
+Deno.test("review repository and commit email are derived from the pseudonym", () => {
+  assertEquals(
+    getReviewRepositoryName("Kandidat-0A1B2C"),
+    "review-kandidat-0a1b2c",
+  );
+  assertEquals(
+    getPseudonymEmail("Kandidat-0A1B2C"),
+    "kandidat-0a1b2c@review.invalid",
+  );
+});
+
+Deno.test("buildReviewCopyNote only links the review copy", () => {
+  assertEquals(
+    buildReviewCopyNote(
+      "Kandidat-0A1B2C",
+      "https://gitlab.com/review/review-kandidat-0a1b2c",
+    ),
+    "🕶️ Anonymisierte Kopie für das Review (Kandidat-0A1B2C): https://gitlab.com/review/review-kandidat-0a1b2c",
+  );
+});
+
+Deno.test("anonymizeText replaces names, usernames and mail addresses", () => {
+  const identifiers = ["Anna-Lena Özdemir", "aoezdemir", "anna@example.com"];
+
+  assertEquals(
+    anonymizeText(
+      "Apply feedback from Anna-Lena Özdemir",
+      identifiers,
+      "Kandidat-0A1B2C",
+    ),
+    "Apply feedback from Kandidat-0A1B2C",
+  );
+  assertEquals(
+    anonymizeText(
+      "Merge branch 'main' of gitlab.com:aoezdemir/homework (özdemir, anna@example.com)",
+      identifiers,
+      "Kandidat-0A1B2C",
+    ),
+    "Merge branch 'main' of gitlab.com:Kandidat-0A1B2C/homework (Kandidat-0A1B2C, Kandidat-0A1B2C)",
+  );
+});
+
+Deno.test("anonymizeText replaces signatures and mentions in answers", () => {
+  assertEquals(
+    anonymizeText(
+      "❓ Wie lange hast du gebraucht?\nEtwa 6 Stunden, siehe @aoezdemir/notes.\n\nViele Grüße\nAnna-Lena",
+      ["Anna-Lena Özdemir", "aoezdemir", "anna@example.com"],
+      "Kandidat-0A1B2C",
+    ),
+    "❓ Wie lange hast du gebraucht?\nEtwa 6 Stunden, siehe @Kandidat-0A1B2C/notes.\n\nViele Grüße\nKandidat-0A1B2C",
+  );
+});
+
+Deno.test("anonymizeText keeps words merely containing a name", () => {
+  assertEquals(
+    anonymizeText(
+      "Add Annotation parser",
+      ["Anna Lee"],
+      "Kandidat-0A1B2C",
+    ),
+    "Add Annotation parser",
+  );
+});
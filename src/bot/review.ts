@@ -0,0 +1,60 @@
+const PSEUDONYM_PREFIX = "Kandidat";
+
+export function generatePseudonym(): string {
+  const bytes = crypto.getRandomValues(new Uint8Array(3));
+  const suffix = [...bytes]
+    .map((byte) => byte.toString(16).padStart(2, "0"))
+    .join("")
+    .toUpperCase();
+  return `${PSEUDONYM_PREFIX}-${suffix}`;
+}
+
+export function getReviewRepositoryName(pseudonym: string): string {
+  return `review-${pseudonym.toLowerCase()}`;
+}
+
+// Commits need an email address, this one can never belong to anybody
+export function getPseudonymEmail(pseudonym: string): string {
+  return `${pseudonym.toLowerCase()}@review.invalid`;
+}
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+}
+
+// Commit titles and answers may name the candidate, e.g. "Apply feedback from Max Mustermann" or a signature, so their
+// names, usernames and mail addresses are replaced by the pseudonym. Parts shorter than three letters are kept, they would
+// match ordinary words.
+export function anonymizeText(
+  text: string,
+  identifiers: string[],
+  pseudonym: string,
+): string {
+  const parts = [
+    ...new Set(
+      identifiers.flatMap((identifier) => {
+        const name = identifier.split("@")[0].trim();
+        // Double names like "Anna-Lena" are replaced as a whole before their parts
+        return [name, ...name.split(/\s+/), ...name.split(/[\s._-]+/)];
+      }),
+    ),
+  ]
+    .filter((part) => part.length >= 3)
+    .sort((a, b) => b.length - a.length);
+
+  return parts.reduce(
+    (anonymized, part) =>
+      anonymized.replace(
+        new RegExp(
+          `(?<![\\p{L}\\p{N}])${escapeRegExp(part)}(?![\\p{L}\\p{N}])`,
+          "giu",
+        ),
+        pseudonym,
+      ),
+    text.replace(/[^\s<>()]+@[^\s<>()]+/g, pseudonym),
+  );
+}
+
+export function buildReviewCopyNote(pseudonym: string, webUrl: string): string {
+  return `🕶️ Anonymisierte Kopie für das Review (${pseudonym}): ${webUrl}`;
+}
@@ -0,0 +1,120 @@
+import { assertEquals } from "https://deno.land/std@0.100.0/testing/asserts.ts";
+import { Reviewer, ReviewerPoolConfig } from "../config/types.ts";
+import { selectReviewers } from "./reviewers.ts";
+import { ReviewAssignment } from "./types.ts";
+
+const reviewer = (adminId: string, options: Partial<Reviewer> = {}) => ({
+  adminId,
+  homeworks: [],
+  capacity: 2,
+  absences: [],
+  ...options,
+});
+
+const assignment = (
+  adminIds: string[],
+  assignedAt: string,
+  completed = false,
+): ReviewAssignment => ({
+  candidateId: 1,
+  taskId: 1,
+  adminIds,
+  homework: "backend",
+  assignedAt,
+  completed,
+});
+
+const pool = (
+  strategy: ReviewerPoolConfig["strategy"],
+  reviewers: Reviewer[],
+  reviewersPerSubmission = 1,
+): ReviewerPoolConfig => ({
+  strategy,
+  reviewersPerSubmission,
+  reviewWindowInDays: 14,
+  reviewers,
+});
+
+const adminIds = (reviewers: Reviewer[]) =>
+  reviewers.map((reviewer) => reviewer.adminId);
+
+Deno.test("round-robin picks who was assigned longest ago", () => {
+  const reviewers = [reviewer("a"), reviewer("b"), reviewer("c")];
+  const assignments = [
+    assignment(["a"], "2021-12-01T10:00:00Z", true),
+    assignment(["b"], "2021-12-03T10:00:00Z", true),
+    assignment(["c"], "2021-12-02T10:00:00Z"),
+  ];
+
+  assertEquals(
+    adminIds(
+      selectReviewers(
+        pool("roundRobin", reviewers, 2),
+        assignments,
+        "backend",
+        "2021-12-06",
+      ),
+    ),
+    ["a", "c"],
+  );
+});
+
+Deno.test("round-robin starts with reviewers never assigned in pool order", () => {
+  const reviewers = [reviewer("a"), reviewer("b")];
+
+  assertEquals(
+    adminIds(
+      selectReviewers(
+        pool("roundRobin", reviewers),
+        [assignment(["a"], "2021-12-01T10:00:00Z", true)],
+        "backend",
+        "2021-12-06",
+      ),
+    ),
+    ["b"],
+  );
+});
+
+Deno.test("least-loaded picks reviewers with the fewest open reviews", () => {
+  const reviewers = [reviewer("a"), reviewer("b"), reviewer("c")];
+  const assignments = [
+    assignment(["a"], "2021-12-01T10:00:00Z"),
+    assignment(["b"], "2021-12-02T10:00:00Z", true),
+    assignment(["b"], "2021-12-03T10:00:00Z", true),
+  ];
+
+  assertEquals(
+    adminIds(
+      selectReviewers(
+        pool("leastLoaded", reviewers, 2),
+        assignments,
+        "backend",
+        "2021-12-06",
+      ),
+    ),
+    ["c", "b"],
+  );
+});
+
+Deno.test("reviewers who are absent, full or lack the homework are skipped", () => {
+  const reviewers = [
+    reviewer("absent", {
+      absences: [{ from: "2021-12-06", to: "2021-12-10" }],
+    }),
+    reviewer("full", { capacity: 1 }),
+    reviewer("frontend", { homeworks: ["frontend"] }),
+    reviewer("available", { homeworks: ["backend"] }),
+  ];
+
+  assertEquals(
+    adminIds(
+      selectReviewers(
+        pool("leastLoaded", reviewers, 3),
+        [assignment(["full"], "2021-12-01T10:00:00Z")],
+        "backend",
+        "2021-12-06",
+      ),
+    ),
+    ["available"],
+  );
+});
@@ -0,0 +1,70 @@
+import { Reviewer, ReviewerPoolConfig } from "../config/types.ts";
+import { ReviewAssignment } from "./types.ts";
+
+type ReviewerLoad = {
+  reviewer: Reviewer;
+  openReviews: number;
+  totalReviews: number;
+  // ISO date time of the latest assignment, empty if never assigned
+  lastAssignedAt: string;
+};
+
+function isAvailable(reviewer: Reviewer, today: string): boolean {
+  return !reviewer.absences.some((absence) =>
+    absence.from <= today && today <= absence.to
+  );
+}
+
+// Round-robin picks who waited longest since their last review, least-loaded who has the fewest open reviews
+export function selectReviewers(
+  pool: ReviewerPoolConfig,
+  assignments: ReviewAssignment[],
+  homework: string,
+  today: string,
+): Reviewer[] {
+  const loads = pool.reviewers.map((reviewer) =>
+    getReviewerLoad(reviewer, assignments)
+  );
+
+  const candidates = loads.filter(({ reviewer, openReviews }) =>
+    (reviewer.homeworks.length === 0 ||
+      reviewer.homeworks.includes(homework)) &&
+    isAvailable(reviewer, today) &&
+    openReviews < reviewer.capacity
+  );
+
+  const byLastAssignment = (a: ReviewerLoad, b: ReviewerLoad) =>
+    a.lastAssignedAt.localeCompare(b.lastAssignedAt);
+  // Array.prototype.sort is stable, so ties keep the order of the pool
+  candidates.sort(
+    pool.strategy === "roundRobin"
+      ? byLastAssignment
+      : (a, b) =>
+        a.openReviews - b.openReviews ||
+        a.totalReviews - b.totalReviews ||
+        byLastAssignment(a, b),
+  );
+
+  return candidates
+    .slice(0, pool.reviewersPerSubmission)
+    .map(({ reviewer }) => reviewer);
+}
+
+function getReviewerLoad(
+  reviewer: Reviewer,
+  assignments: ReviewAssignment[],
+): ReviewerLoad {
+  const own = assignments.filter((assignment) =>
+    assignment.adminIds.includes(reviewer.adminId)
+  );
+
+  return {
+    reviewer,
+    openReviews: own.filter((assignment) => !assignment.completed).length,
+    totalReviews: own.length,
+    lastAssignedAt: own
+      .map((assignment) => assignment.assignedAt)
+      .sort()
+      .pop() ?? "",
+  };
+}
@@ -0,0 +1,76 @@
+import { assertEquals } from "https://deno.land/std@0.100.0/testing/asserts.ts";
+import { HttpError } from "../http/HttpError.ts";
+import { NetworkError } from "../http/NetworkError.ts";
+import { GitlabError } from "../gitlab/GitlabError.ts";
+import { RecruiteeError } from "../recruitee/RecruiteeError.ts";
+import Rollback, { isPermanentError } from "./rollback.ts";
+
+Deno.test("Rollback undoes steps in reverse order", async () => {
+  const undone: string[] = [];
+  const rollback = new Rollback();
+  rollback.register("first", () => {
+    undone.push("first");
+    return Promise.resolve();
+  });
+  rollback.register("second", () => {
+    undone.push("second");
+    return Promise.resolve();
+  });
+
+  const summary = await rollback.run();
+
+  assertEquals(undone, ["second", "first"]);
+  assertEquals(summary, ["✅ second", "✅ first"]);
+});
+
+Deno.test("Rollback continues when an undo action fails", async () => {
+  const undone: string[] = [];
+  const rollback = new Rollback();
+  rollback.register("first", () => {
+    undone.push("first");
+    return Promise.resolve();
+  });
+  rollback.register("second", () => {
+    throw new Error("not possible");
+  });
+
+  const summary = await rollback.run();
+
+  assertEquals(undone, ["first"]);
+  assertEquals(summary, [
+    "❌ second fehlgeschlagen: not possible",
+    "✅ first",
+  ]);
+});
+
+Deno.test("Rollback runs every undo action only once", async () => {
+  let undoCount = 0;
+  const rollback = new Rollback();
+  rollback.register("step", () => {
+    undoCount += 1;
+    return Promise.resolve();
+  });
+
+  await rollback.run();
+  await rollback.run();
+
+  assertEquals(undoCount, 1);
+});
+
+Deno.test("isPermanentError distinguishes retryable errors", () => {
+  assertEquals(isPermanentError(new GitlabError("not found")), true);
+  assertEquals(isPermanentError(new HttpError(404)), true);
+  assertEquals(isPermanentError(new HttpError(429)), false);
+  assertEquals(isPermanentError(new HttpError(502)), false);
+  assertEquals(isPermanentError(new HttpError(408)), false);
+  assertEquals(
+    isPermanentError(new NetworkError("url", new TypeError("network error"))),
+    false,
+  );
+});
+
+Deno.test("isPermanentError does not blame GitLab or Recruitee for local errors", () => {
+  assertEquals(isPermanentError(new TypeError("x is undefined")), false);
+  assertEquals(isPermanentError(new Deno.errors.PermissionDenied()), false);
+  assertEquals(isPermanentError(new RecruiteeError("no mail address")), true);
+});
@@ -0,0 +1,64 @@
+import { HttpError } from "../http/HttpError.ts";
+import { NetworkError } from "../http/NetworkError.ts";
+import { GitlabError } from "../gitlab/GitlabError.ts";
+import { RecruiteeError } from "../recruitee/RecruiteeError.ts";
+
+type Compensation = {
+  description: string;
+  undo: () => Promise<void>;
+};
+
+export class RolledBackError extends Error {
+  readonly originalError: Error;
+  readonly summary: string[];
+
+  constructor(originalError: Error, summary: string[]) {
+    super(originalError.message);
+    this.originalError = originalError;
+    this.summary = summary;
+  }
+}
+
+export default class Rollback {
+  private compensations: Compensation[] = [];
+
+  register(description: string, undo: () => Promise<void>) {
+    this.compensations.push({ description, undo });
+  }
+
+  // Undoes all registered steps in reverse order. A failing undo action does not stop the others.
+  async run(): Promise<string[]> {
+    const summary: string[] = [];
+
+    for (const { description, undo } of [...this.compensations].reverse()) {
+      try {
+        await undo();
+        summary.push(`✅ ${description}`);
+      } catch (error) {
+        console.warn(`[Bot] Rollback step "${description}" failed`, error);
+        summary.push(`❌ ${description} fehlgeschlagen: ${error.message}`);
+      }
+    }
+
+    this.compensations = [];
+    return summary;
+  }
+}
+
+// Timeouts, rate limits, server errors and network failures are worth retrying in the next run.
+function isTransientError(error: Error): boolean {
+  if (error instanceof HttpError) {
+    return error.statusCode === 408 || error.statusCode === 429 ||
+      error.statusCode >= 500;
+  }
+  return error instanceof NetworkError;
+}
+
+// Only GitLab or Recruitee refusing a step is permanent. A bug or a failing state file
+// says nothing about the fork, which the candidate may already be using.
+export function isPermanentError(error: Error): boolean {
+  if (error instanceof HttpError) {
+    return !isTransientError(error);
+  }
+  return error instanceof GitlabError || error instanceof RecruiteeError;
+}
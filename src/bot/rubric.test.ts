@@ -0,0 +1,79 @@
+import { assertEquals } from "https://deno.land/std@0.100.0/testing/asserts.ts";
+import {
+  buildRubricIssueDescription,
+  buildRubricNote,
+  getRubricComments,
+  parseRubricScores,
+} from "./rubric.ts";
+
+const criteria = [
+  { title: "Codequalität", maxScore: 5 },
+  { title: "Tests (Unit)", maxScore: 3 },
+];
+const url = "https://gitlab.com/hacking-talents/reviews/-/issues/1";
+
+Deno.test("buildRubricIssueDescription lists every criterion", () => {
+  const description = buildRubricIssueDescription(criteria);
+
+  assertEquals(
+    description.split("\n").filter((line) => line.startsWith("- [ ]")),
+    ["- [ ] Codequalität: __ / 5", "- [ ] Tests (Unit): __ / 3"],
+  );
+});
+
+Deno.test("parseRubricScores reads filled-in scores", () => {
+  const description = buildRubricIssueDescription(criteria)
+    .replace("Codequalität: __", "Codequalität: 4,5")
+    .replace("- [ ] Tests (Unit): __", "- [x] Tests (Unit): 2");
+
+  assertEquals(parseRubricScores(description, criteria), [4.5, 2]);
+});
+
+Deno.test("parseRubricScores ignores missing and too high scores", () => {
+  assertEquals(
+    parseRubricScores(
+      "- [ ] Codequalität: __ / 5\n- [ ] Tests (Unit): 4 / 3",
+      criteria,
+    ),
+    [undefined, undefined],
+  );
+});
+
+Deno.test("getRubricComments keeps the text besides the rubric", () => {
+  const description = buildRubricIssueDescription(criteria) +
+    "Saubere Struktur.";
+
+  assertEquals(
+    getRubricComments(description, criteria, true),
+    "Saubere Struktur.",
+  );
+  assertEquals(
+    getRubricComments(
+      "- [x] Codequalität: 3 / 5\n- [x] Tests (Unit): 1 / 3\n\nTests fehlen teilweise.",
+      criteria,
+      false,
+    ),
+    "Tests fehlen teilweise.",
+  );
+});
+
+Deno.test("buildRubricNote averages the scores of all reviews", () => {
+  assertEquals(
+    buildRubricNote(
+      criteria,
+      [[4, undefined], [5, undefined], [undefined, undefined]],
+      ["Saubere Struktur."],
+      url,
+    ),
+    [
+      `📝 Bewertung aus dem Review (2 Bewertungen): ${url}`,
+      "",
+      "- Codequalität: 4,5 / 5",
+      "- Tests (Unit): nicht bewertet",
+      "Gesamt: 4,5 / 8 (56 %)",
+      "",
+      "💬 Kommentare:",
+      "Saubere Struktur.",
+    ].join("\n"),
+  );
+});
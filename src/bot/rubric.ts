@@ -0,0 +1,129 @@
+import { RubricCriterion } from "../config/types.ts";
+
+export const REVIEW_ISSUE_TITLE = "Hausaufgabe bewerten";
+const SCORE_PLACEHOLDER = "__";
+const COMMENTS_HEADING = "## Kommentare";
+
+// Every filled-in rubric, in the issue description or a comment, counts as one review
+export function buildRubricIssueDescription(
+  criteria: RubricCriterion[],
+): string {
+  return [
+    `Bitte bei jedem Kriterium die Punktzahl statt "${SCORE_PLACEHOLDER}" eintragen, Anmerkungen unter "Kommentare" ergänzen und das Issue schließen, sobald das Review fertig ist. Weitere Reviewer kopieren die Liste in einen Kommentar.`,
+    "",
+    "## Bewertung",
+    "",
+    ...criteria.map((criterion) => formatCriterionLine(criterion)),
+    "",
+    COMMENTS_HEADING,
+    "",
+  ].join("\n");
+}
+
+function formatCriterionLine(criterion: RubricCriterion): string {
+  return `- [ ] ${criterion.title}: ${SCORE_PLACEHOLDER} / ${criterion.maxScore}`;
+}
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+}
+
+function getCriterionPattern(criterion: RubricCriterion): RegExp {
+  return new RegExp(
+    `^\\s*[-*]\\s*\\[[ xX]\\]\\s*${
+      escapeRegExp(criterion.title)
+    }\\s*:\\s*(\\S+)\\s*/\\s*\\d+\\s*$`,
+    "m",
+  );
+}
+
+// Scores that are missing, no number or above the maximum count as not rated
+export function parseRubricScores(
+  text: string,
+  criteria: RubricCriterion[],
+): (number | undefined)[] {
+  return criteria.map((criterion) => {
+    const match = text.match(getCriterionPattern(criterion));
+    if (!match || !/^\d+([.,]\d+)?$/.test(match[1])) {
+      return undefined;
+    }
+
+    const score = Number(match[1].replace(",", "."));
+    return score <= criterion.maxScore ? score : undefined;
+  });
+}
+
+// Comments are whatever is left once the rubric is removed
+export function getRubricComments(
+  text: string,
+  criteria: RubricCriterion[],
+  isDescription: boolean,
+): string {
+  const commentsStart = text.indexOf(COMMENTS_HEADING);
+  if (isDescription) {
+    return commentsStart === -1
+      ? ""
+      : text.slice(commentsStart + COMMENTS_HEADING.length).trim();
+  }
+
+  return criteria
+    .reduce(
+      (remaining, criterion) =>
+        remaining.replace(getCriterionPattern(criterion), ""),
+      text,
+    )
+    .replace(COMMENTS_HEADING, "")
+    .replace(/\n{3,}/g, "\n\n")
+    .trim();
+}
+
+export function buildRubricNote(
+  criteria: RubricCriterion[],
+  reviews: (number | undefined)[][],
+  comments: string[],
+  issueUrl: string,
+): string {
+  const averages = criteria.map((_, index) => {
+    const scores = reviews
+      .map((scores) => scores[index])
+      .filter((score): score is number => score !== undefined);
+    return scores.length > 0
+      ? scores.reduce((sum, score) => sum + score, 0) / scores.length
+      : undefined;
+  });
+  const reviewCount =
+    reviews.filter((scores) => scores.some((score) => score !== undefined))
+      .length;
+
+  const total = averages.reduce<number>((sum, score) => sum + (score ?? 0), 0);
+  const maxTotal = criteria.reduce(
+    (sum, criterion) => sum + criterion.maxScore,
+    0,
+  );
+
+  const lines = [
+    `📝 Bewertung aus dem Review (${reviewCount} ${
+      reviewCount === 1 ? "Bewertung" : "Bewertungen"
+    }): ${issueUrl}`,
+    "",
+    ...criteria.map((criterion, index) =>
+      `- ${criterion.title}: ${
+        averages[index] === undefined
+          ? "nicht bewertet"
+          : `${formatScore(averages[index]!)} / ${criterion.maxScore}`
+      }`
+    ),
+    `Gesamt: ${formatScore(total)} / ${maxTotal} (${
+      Math.round((total / maxTotal) * 100)
+    } %)`,
+  ];
+  if (comments.length > 0) {
+    lines.push("", "💬 Kommentare:", comments.join("\n\n"));
+  }
+
+  return lines.join("\n");
+}
+
+function formatScore(score: number): string {
+  return score.toLocaleString("de-DE", { maximumFractionDigits: 1 });
+}
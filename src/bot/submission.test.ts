@@ -0,0 +1,100 @@
+// deno-lint-ignore-file camelcase
+import { assertEquals } from "https://deno.land/std@0.100.0/testing/asserts.ts";
+import {
+  buildSubmissionNote,
+  buildSubmissionProblemsNote,
+  SUBMISSION_NOTE,
+} from "./submission.ts";
+import { Issue } from "../gitlab/types.ts";
+
+const user = { id: 1, username: "bot", name: "Bot" };
+const issue: Issue = {
+  iid: 1,
+  title: "Hausaufgabe abschließen",
+  assignee: user,
+  author: user,
+  web_url: "",
+  due_date: "2021-12-23",
+  // 18:02 in Berlin
+  closed_at: "2021-12-21T17:02:00Z",
+};
+
+Deno.test("buildSubmissionNote summarises the repository statistics", () => {
+  const note = buildSubmissionNote(
+    issue,
+    {
+      commitCount: 12,
+      firstCommitAt: new Date("2021-12-14T09:03:00Z"),
+      lastCommitAt: new Date("2021-12-20T21:41:00Z"),
+      changedFiles: 8,
+      languages: { CSS: 15.2, TypeScript: 80.1, HTML: 4.7 },
+    },
+    new Date("2021-12-22T22:59:59Z"),
+  );
+
+  assertEquals(
+    note,
+    [
+      SUBMISSION_NOTE,
+      "",
+      "📊 Zusammenfassung:",
+      "- Commits: 12 (erster am 14.12., 10:03 Uhr, letzter am 20.12., 22:41 Uhr)",
+      "- Geänderte Dateien gegenüber der Vorlage: 8",
+      "- Sprachen: TypeScript 80 %, CSS 15 %, HTML 5 %",
+      "- Abgabe: vor Ablauf der Frist (Issue geschlossen am 21.12., 18:02 Uhr, Frist bis 22.12.)",
+    ].join("\n"),
+  );
+});
+
+Deno.test("buildSubmissionNote reports issues closed on or after the due date", () => {
+  const note = buildSubmissionNote(
+    { ...issue, closed_at: "2021-12-23T08:00:00Z" },
+    {
+      commitCount: 0,
+      changedFiles: 0,
+      languages: {},
+    },
+    new Date("2021-12-22T22:59:59Z"),
+  );
+
+  assertEquals(note.split("\n").slice(3), [
+    "- Commits: keine",
+    "- Geänderte Dateien gegenüber der Vorlage: 0",
+    "- Sprachen: keine erkannt",
+    "- Abgabe: nach Ablauf der Frist (Issue geschlossen am 23.12., 09:00 Uhr, Frist bis 22.12.)",
+  ]);
+});
+
+Deno.test("buildSubmissionNote works without statistics", () => {
+  assertEquals(
+    buildSubmissionNote({ ...issue, due_date: undefined }),
+    SUBMISSION_NOTE,
+  );
+});
+
+Deno.test("buildSubmissionNote records the submitted commit", () => {
+  assertEquals(
+    buildSubmissionNote(
+      { ...issue, due_date: undefined },
+      undefined,
+      undefined,
+      "0123456789abcdef0123456789abcdef01234567",
+    ),
+    [
+      SUBMISSION_NOTE,
+      '🔒 Abgegebener Stand: Tag "submission" auf Commit 0123456789abcdef0123456789abcdef01234567',
+    ].join("\n"),
+  );
+});
+
+Deno.test("buildSubmissionProblemsNote lists what has to be done by hand", () => {
+  assertEquals(
+    buildSubmissionProblemsNote([
+      'Tag "submission" auf den abgegebenen Stand setzen',
+    ]),
+    [
+      "⚠️ Bei der Abgabe hat nicht alles geklappt, bitte von Hand nachholen:",
+      '- Tag "submission" auf den abgegebenen Stand setzen',
+    ].join("\n"),
+  );
+});
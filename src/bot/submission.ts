@@ -0,0 +1,97 @@
+import { SUBMISSION_TAG_NAME } from "../gitlab/gitlab.ts";
+import { Issue, SubmissionStats } from "../gitlab/types.ts";
+import { dateToISO, getTimezone } from "../tools.ts";
+
+export const SUBMISSION_NOTE = "📥 Hausaufgabe eingegangen.";
+
+// Gives reviewers context on the submission without opening GitLab first
+export function buildSubmissionNote(
+  issue: Issue,
+  stats?: SubmissionStats,
+  lastDayBeforeDueDate?: Date,
+  submissionSha?: string,
+): string {
+  const lines = [SUBMISSION_NOTE];
+
+  if (submissionSha) {
+    lines.push(
+      `🔒 Abgegebener Stand: Tag "${SUBMISSION_TAG_NAME}" auf Commit ${submissionSha}`,
+    );
+  }
+
+  if (stats) {
+    lines.push("", "📊 Zusammenfassung:", ...formatSubmissionStats(stats));
+  }
+
+  if (issue.due_date && lastDayBeforeDueDate) {
+    const closedAt = issue.closed_at ? new Date(issue.closed_at) : new Date();
+    const onTime = dateToISO(closedAt) < issue.due_date;
+    if (!stats) {
+      lines.push("");
+    }
+    lines.push(
+      `- Abgabe: ${
+        onTime ? "vor" : "nach"
+      } Ablauf der Frist (Issue geschlossen am ${
+        formatDateTime(closedAt)
+      }, Frist bis ${formatDate(lastDayBeforeDueDate)})`,
+    );
+  }
+
+  return lines.join("\n");
+}
+
+// What the bot could not do on submission has to be done by hand, before the review starts
+export function buildSubmissionProblemsNote(problems: string[]): string {
+  return [
+    "⚠️ Bei der Abgabe hat nicht alles geklappt, bitte von Hand nachholen:",
+    ...problems.map((problem) => `- ${problem}`),
+  ].join("\n");
+}
+
+export function formatSubmissionStats(stats: SubmissionStats): string[] {
+  return [
+    `- Commits: ${formatCommits(stats)}`,
+    `- Geänderte Dateien gegenüber der Vorlage: ${stats.changedFiles}`,
+    `- Sprachen: ${formatLanguages(stats.languages)}`,
+  ];
+}
+
+function formatCommits(stats: SubmissionStats): string {
+  if (stats.commitCount === 0 || !stats.firstCommitAt || !stats.lastCommitAt) {
+    return "keine";
+  }
+  return `${stats.commitCount} (erster am ${
+    formatDateTime(stats.firstCommitAt)
+  }, letzter am ${formatDateTime(stats.lastCommitAt)})`;
+}
+
+function formatLanguages(languages: Record<string, number>): string {
+  const entries = Object.entries(languages).sort(([, a], [, b]) => b - a);
+  if (entries.length === 0) {
+    return "keine erkannt";
+  }
+  return entries
+    .map(([language, share]) => `${language} ${Math.round(share)} %`)
+    .join(", ");
+}
+
+function formatDate(date: Date): string {
+  return date.toLocaleDateString("de-DE", {
+    timeZone: getTimezone(),
+    day: "numeric",
+    month: "numeric",
+  });
+}
+
+function formatDateTime(date: Date): string {
+  return `${
+    date.toLocaleString("de-DE", {
+      timeZone: getTimezone(),
+      day: "numeric",
+      month: "numeric",
+      hour: "2-digit",
+      minute: "2-digit",
+    })
+  } Uhr`;
+}
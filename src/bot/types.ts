@@ -0,0 +1,72 @@
+import { RubricCriterion } from "../config/types.ts";
+import { GitlabProject, Issue } from "../gitlab/types.ts";
+
+export type CandidateStep =
+  | "sendHomework"
+  | "extendHomework"
+  | "checkSubmission"
+  | "onboard";
+
+export type HomeworkProgress = {
+  fork?: GitlabProject;
+  dueDate?: string;
+  memberAdded?: boolean;
+  issue?: Issue;
+  fieldsSet?: boolean;
+  mailSent?: boolean;
+  followUpTasksCreated?: boolean;
+  taskCompleted?: boolean;
+};
+
+// Only the bot knows which candidate is behind the pseudonym of a review copy
+export type ReviewCopy = {
+  candidateId: number;
+  pseudonym: string;
+  projectId: string;
+  webUrl: string;
+  // Everything needed to start the copy over if copying the commits fails halfway
+  sourceProjectId: string;
+  solutionBranches: string[];
+  identifiers: string[];
+  answers: string;
+  completed: boolean;
+};
+
+export type ReviewAssignment = {
+  candidateId: number;
+  taskId: number;
+  adminIds: string[];
+  homework: string;
+  assignedAt: string;
+  completed: boolean;
+};
+
+// The criteria are kept so later changes to the catalog do not break open reviews
+export type PendingReview = {
+  candidateId: number;
+  projectId: string;
+  issueIid: number;
+  issueUrl: string;
+  criteria: RubricCriterion[];
+  notePosted?: boolean;
+};
+
+// Kept after the stage move until every later step of a submission has run, so the next poll retries the failed ones
+export type SubmissionSteps = {
+  candidateId: number;
+  projectId: string;
+  issueIid: number;
+  submissionSha?: string;
+  // Missing if the review copy could not be made, finishing the copy opens the merge request then
+  reviewProjectId?: string;
+  mergeRequestOpened?: boolean;
+  reviewIssueOpened?: boolean;
+  plagiarismChecked?: boolean;
+  evaluationStarted?: boolean;
+};
+
+// Kept for every checked submission, which is frozen, so later checks do not compare its fork again
+export type SubmissionFingerprints = {
+  projectId: string;
+  fingerprints: number[];
+};
@@ -0,0 +1,99 @@
+import { assertEquals } from "https://deno.land/std@0.100.0/testing/asserts.ts";
+import Calendar from "./calendar.ts";
+import { easterSunday, getPublicHolidays } from "./holidays.ts";
+import { DEFAULT_CALENDAR_CONFIG } from "../config/config.ts";
+import { dateToISO } from "../tools.ts";
+
+const businessDays = new Calendar({
+  ...DEFAULT_CALENDAR_CONFIG,
+  days: "business",
+});
+
+Deno.test("easterSunday calculates Easter for several years", () => {
+  assertEquals(dateToISO(easterSunday(2021)), "2021-04-04");
+  assertEquals(dateToISO(easterSunday(2024)), "2024-03-31");
+  assertEquals(dateToISO(easterSunday(2025)), "2025-04-20");
+});
+
+Deno.test("getPublicHolidays lists the holidays of North Rhine-Westphalia", () => {
+  assertEquals(getPublicHolidays(2021, "DE-NW"), [
+    "2021-01-01",
+    "2021-04-02",
+    "2021-04-05",
+    "2021-05-01",
+    "2021-05-13",
+    "2021-05-24",
+    "2021-06-03",
+    "2021-10-03",
+    "2021-11-01",
+    "2021-12-25",
+    "2021-12-26",
+  ]);
+});
+
+Deno.test("getPublicHolidays leaves out regional holidays for Germany", () => {
+  const holidays = getPublicHolidays(2021, "DE");
+
+  assertEquals(holidays.includes("2021-06-03"), false);
+  assertEquals(holidays.includes("2021-11-01"), false);
+  assertEquals(holidays.length, 9);
+});
+
+Deno.test("calendar days are added as they are", () => {
+  const calendar = new Calendar();
+
+  assertEquals(
+    calendar.addDays(new Date("2021-12-20T10:00:00Z"), 6).toISOString(),
+    "2021-12-26T10:00:00.000Z",
+  );
+});
+
+Deno.test("business days skip weekends and holidays", () => {
+  // Thursday before Christmas, Friday 24th is the only working day until Monday 27th
+  assertEquals(
+    businessDays.addDays(new Date("2021-12-23T10:00:00Z"), 2).toISOString(),
+    "2021-12-27T10:00:00.000Z",
+  );
+  // Easter: Good Friday and Easter Monday are holidays
+  assertEquals(
+    businessDays.addDays(new Date("2021-04-01T10:00:00Z"), 1).toISOString(),
+    "2021-04-06T10:00:00.000Z",
+  );
+});
+
+Deno.test("additional holidays are skipped as well", () => {
+  const calendar = new Calendar({
+    ...DEFAULT_CALENDAR_CONFIG,
+    days: "business",
+    additionalHolidays: ["2021-12-24"],
+  });
+
+  assertEquals(
+    dateToISO(calendar.addDays(new Date("2021-12-23T10:00:00Z"), 1)),
+    "2021-12-27",
+  );
+});
+
+Deno.test("due dates can be moved to the next working day", () => {
+  const calendar = new Calendar({
+    ...DEFAULT_CALENDAR_CONFIG,
+    moveToNextWorkingDay: true,
+  });
+
+  // 8 days after Saturday, 2021-12-18 is Sunday the 26th
+  assertEquals(
+    dateToISO(calendar.addDays(new Date("2021-12-18T10:00:00Z"), 8)),
+    "2021-12-27",
+  );
+});
+
+Deno.test("lastDayBefore is the working day before the due date for business days", () => {
+  assertEquals(
+    dateToISO(businessDays.lastDayBefore(new Date("2021-12-27T10:00:00Z"))),
+    "2021-12-24",
+  );
+  assertEquals(
+    dateToISO(new Calendar().lastDayBefore(new Date("2021-12-27T10:00:00Z"))),
+    "2021-12-26",
+  );
+});
@@ -0,0 +1,76 @@
+import { CalendarConfig } from "../config/types.ts";
+import { DEFAULT_CALENDAR_CONFIG } from "../config/config.ts";
+import { addDaysToDate, dateToISO } from "../tools.ts";
+import { getPublicHolidays } from "./holidays.ts";
+
+export default class Calendar {
+  private config: CalendarConfig;
+  private holidaysByYear = new Map<number, Set<string>>();
+
+  constructor(config: CalendarConfig = DEFAULT_CALENDAR_CONFIG) {
+    this.config = config;
+  }
+
+  isWorkingDay(date: Date): boolean {
+    const isoDate = dateToISO(date);
+    // A date without time is read as UTC midnight, giving the weekday of the day in the time zone
+    const weekday = new Date(isoDate).getUTCDay();
+    if (weekday === 0 || weekday === 6) {
+      return false;
+    }
+
+    return !this.getHolidays(Number(isoDate.slice(0, 4))).has(isoDate);
+  }
+
+  // Counts calendar or business days depending on the config, the result may be moved to the next working day
+  addDays(fromDate: Date, days: number): Date {
+    let date = fromDate;
+
+    if (this.config.days === "business") {
+      const step = days < 0 ? -1 : 1;
+      for (let remaining = Math.abs(days); remaining > 0;) {
+        date = addDaysToDate(date, step);
+        if (this.isWorkingDay(date)) {
+          remaining--;
+        }
+      }
+    } else {
+      date = addDaysToDate(date, days);
+    }
+
+    return this.config.moveToNextWorkingDay ? this.nextWorkingDay(date) : date;
+  }
+
+  // The given date if it is a working day already
+  nextWorkingDay(date: Date): Date {
+    while (!this.isWorkingDay(date)) {
+      date = addDaysToDate(date, 1);
+    }
+    return date;
+  }
+
+  // The last day to work on the homework, as access expires on the due date itself
+  lastDayBefore(dueDate: Date): Date {
+    let date = addDaysToDate(dueDate, -1);
+    if (this.config.days === "business") {
+      while (!this.isWorkingDay(date)) {
+        date = addDaysToDate(date, -1);
+      }
+    }
+    return date;
+  }
+
+  private getHolidays(year: number): Set<string> {
+    let holidays = this.holidaysByYear.get(year);
+    if (!holidays) {
+      holidays = new Set([
+        ...(this.config.holidays === "none"
+          ? []
+          : getPublicHolidays(year, this.config.holidays)),
+        ...this.config.additionalHolidays,
+      ]);
+      this.holidaysByYear.set(year, holidays);
+    }
+    return holidays;
+  }
+}
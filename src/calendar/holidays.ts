@@ -0,0 +1,57 @@
+import { addDaysToDate, dateToISO } from "../tools.ts";
+
+export const HOLIDAY_REGIONS = ["DE", "DE-NW"] as const;
+export type HolidayRegion = typeof HOLIDAY_REGIONS[number];
+
+// Anonymous Gregorian algorithm (Meeus/Jones/Butcher)
+export function easterSunday(year: number): Date {
+  const a = year % 19;
+  const b = Math.floor(year / 100);
+  const c = year % 100;
+  const d = Math.floor(b / 4);
+  const e = b % 4;
+  const f = Math.floor((b + 8) / 25);
+  const g = Math.floor((b - f + 1) / 3);
+  const h = (19 * a + b - d - g + 15) % 30;
+  const i = Math.floor(c / 4);
+  const k = c % 4;
+  const l = (32 + 2 * e + 2 * i - h - k) % 7;
+  const m = Math.floor((a + 11 * h + 22 * l) / 451);
+  const month = Math.floor((h + l - 7 * m + 114) / 31);
+  const day = ((h + l - 7 * m + 114) % 31) + 1;
+
+  return new Date(Date.UTC(year, month - 1, day));
+}
+
+// Public holidays as ISO dates, "DE" are the nationwide ones, "DE-NW" adds those of North Rhine-Westphalia
+export function getPublicHolidays(
+  year: number,
+  region: HolidayRegion,
+): string[] {
+  const easter = easterSunday(year);
+  // Holidays are plain dates, so they are calculated in UTC
+  const fixed = (month: number, day: number) =>
+    dateToISO(new Date(Date.UTC(year, month - 1, day)), "UTC");
+  const afterEaster = (days: number) =>
+    dateToISO(addDaysToDate(easter, days, "UTC"), "UTC");
+
+  const holidays = [
+    fixed(1, 1), // Neujahr
+    afterEaster(-2), // Karfreitag
+    afterEaster(1), // Ostermontag
+    fixed(5, 1), // Tag der Arbeit
+    afterEaster(39), // Christi Himmelfahrt
+    afterEaster(50), // Pfingstmontag
+    fixed(10, 3), // Tag der Deutschen Einheit
+    fixed(12, 25), // 1. Weihnachtstag
+    fixed(12, 26), // 2. Weihnachtstag
+  ];
+  if (region === "DE-NW") {
+    holidays.push(
+      afterEaster(60), // Fronleichnam
+      fixed(11, 1), // Allerheiligen
+    );
+  }
+
+  return holidays.sort();
+}
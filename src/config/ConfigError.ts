@@ -0,0 +1,5 @@
+export class ConfigError extends Error {
+  constructor(message: string) {
+    super("[Config] " + message);
+  }
+}
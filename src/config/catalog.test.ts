@@ -0,0 +1,170 @@
+import {
+  assertEquals,
+  assertThrows,
+} from "https://deno.land/std@0.100.0/testing/asserts.ts";
+import { parseHomeworkCatalog } from "./catalog.ts";
+import { ConfigError } from "./ConfigError.ts";
+
+Deno.test("parseHomeworkCatalog parses a complete homework", () => {
+  const catalog = parseHomeworkCatalog({
+    "Frontend": {
+      templateProject: "homework-frontend",
+      durationInDays: 14,
+      correctionGuideLink: "https://example.com/frontend",
+      issueQuestions: ["Wie lange hast du gebraucht?"],
+      mailTemplate: "default",
+      solutionBranches: ["solution", "solution-typescript"],
+      evaluation: { project: "evaluation/frontend", ref: "hidden-tests" },
+    },
+  });
+
+  assertEquals(catalog, {
+    "Frontend": {
+      templateProject: "homework-frontend",
+      durationInDays: 14,
+      correctionGuideLink: "https://example.com/frontend",
+      issueQuestions: {
+        "de-informal": ["Wie lange hast du gebraucht?"],
+        "de-formal": ["Wie lange hast du gebraucht?"],
+        en: ["Wie lange hast du gebraucht?"],
+      },
+      mailTemplate: "default",
+      solutionBranches: ["solution", "solution-typescript"],
+      evaluation: { project: "evaluation/frontend", ref: "hidden-tests" },
+      rubric: undefined,
+    },
+  });
+});
+
+Deno.test("parseHomeworkCatalog parses issue questions per locale", () => {
+  const catalog = parseHomeworkCatalog({
+    "Backend": {
+      templateProject: "homework-backend",
+      issueQuestions: { en: ["How long did it take you?"] },
+    },
+  });
+
+  assertEquals(catalog["Backend"].issueQuestions, {
+    en: ["How long did it take you?"],
+  });
+});
+
+Deno.test("parseHomeworkCatalog applies defaults", () => {
+  const catalog = parseHomeworkCatalog({
+    "Backend": { templateProject: "homework-backend" },
+  });
+
+  assertEquals(catalog["Backend"], {
+    templateProject: "homework-backend",
+    durationInDays: 8,
+    correctionGuideLink: undefined,
+    issueQuestions: {},
+    mailTemplate: "default",
+    solutionBranches: ["solution"],
+    evaluation: undefined,
+    rubric: undefined,
+  });
+});
+
+Deno.test("parseHomeworkCatalog runs hidden tests from the main branch by default", () => {
+  const catalog = parseHomeworkCatalog({
+    "Backend": {
+      templateProject: "homework-backend",
+      evaluation: { project: "evaluation/backend" },
+    },
+  });
+
+  assertEquals(catalog["Backend"].evaluation, {
+    project: "evaluation/backend",
+    ref: "main",
+  });
+});
+
+Deno.test("parseHomeworkCatalog parses the review rubric", () => {
+  const catalog = parseHomeworkCatalog({
+    "Backend": {
+      templateProject: "homework-backend",
+      rubric: {
+        project: "hacking-talents/reviews",
+        criteria: [{ title: "Codequalität", maxScore: 5 }],
+      },
+    },
+  });
+
+  assertEquals(catalog["Backend"].rubric, {
+    project: "hacking-talents/reviews",
+    criteria: [{ title: "Codequalität", maxScore: 5 }],
+  });
+});
+
+Deno.test("parseHomeworkCatalog rejects rubrics without criteria", () => {
+  assertThrows(
+    () =>
+      parseHomeworkCatalog({
+        "Backend": {
+          templateProject: "homework-backend",
+          rubric: { criteria: [] },
+        },
+      }),
+    ConfigError,
+    '"homeworks.Backend.rubric.criteria" needs at least one criterion.',
+  );
+});
+
+Deno.test("parseHomeworkCatalog rejects rubrics without project", () => {
+  assertThrows(
+    () =>
+      parseHomeworkCatalog({
+        "Backend": {
+          templateProject: "homework-backend",
+          rubric: { criteria: [{ title: "Codequalität", maxScore: 5 }] },
+        },
+      }),
+    ConfigError,
+    '"homeworks.Backend.rubric.project" has to be a non-empty string.',
+  );
+});
+
+Deno.test("parseHomeworkCatalog rejects homeworks without template project", () => {
+  assertThrows(
+    () => parseHomeworkCatalog({ "Backend": { durationInDays: 8 } }),
+    ConfigError,
+    '"homeworks.Backend.templateProject" has to be a non-empty string.',
+  );
+});
+
+Deno.test("parseHomeworkCatalog rejects unknown mail templates", () => {
+  assertThrows(
+    () =>
+      parseHomeworkCatalog({
+        "Backend": {
+          templateProject: "homework-backend",
+          mailTemplate: "fancy",
+        },
+      }),
+    ConfigError,
+    '"homeworks.Backend.mailTemplate" has to be one of "default".',
+  );
+});
+
+Deno.test("parseHomeworkCatalog rejects durations below one day", () => {
+  assertThrows(
+    () =>
+      parseHomeworkCatalog({
+        "Backend": { templateProject: "homework-backend", durationInDays: 0 },
+      }),
+    ConfigError,
+    '"homeworks.Backend.durationInDays" has to be at least 1.',
+  );
+});
+
+Deno.test("parseHomeworkCatalog accepts mail templates read from files", () => {
+  const catalog = parseHomeworkCatalog(
+    {
+      "Backend": { templateProject: "homework-backend", mailTemplate: "short" },
+    },
+    ["default", "short"],
+  );
+
+  assertEquals(catalog["Backend"].mailTemplate, "short");
+});
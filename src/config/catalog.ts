@@ -0,0 +1,189 @@
+import {
+  HomeworkCatalog,
+  HomeworkDefinition,
+  HomeworkEvaluation,
+  HomeworkRubric,
+} from "./types.ts";
+import { ConfigError } from "./ConfigError.ts";
+import { readJsonFile } from "./json.ts";
+import {
+  expectArray,
+  expectInteger,
+  expectObject,
+  expectOneOf,
+  expectString,
+  expectStringArray,
+} from "./validation.ts";
+import { Locale, LOCALES, MAIL_TEMPLATE_VARIANTS } from "../messages.ts";
+
+export const DEFAULT_HOMEWORK_DURATION_IN_DAYS = 8;
+export const DEFAULT_SOLUTION_BRANCHES = ["solution"];
+const DEFAULT_EVALUATION_REF = "main";
+
+export async function loadHomeworkCatalog(
+  path: string,
+  mailTemplateVariants = MAIL_TEMPLATE_VARIANTS,
+): Promise<HomeworkCatalog | null> {
+  const json = await readJsonFile(path);
+  if (json === undefined) {
+    console.warn(
+      `[Config] ${path} not found. Homeworks are forked from the template project with the same name.`,
+    );
+    return null;
+  }
+
+  return parseHomeworkCatalog(json, mailTemplateVariants);
+}
+
+export function parseHomeworkCatalog(
+  json: unknown,
+  mailTemplateVariants = MAIL_TEMPLATE_VARIANTS,
+): HomeworkCatalog {
+  const catalog = expectObject(json, "homeworks");
+
+  return Object.fromEntries(
+    Object.entries(catalog).map((
+      [name, homeworkJson],
+    ) => [
+      name,
+      parseHomeworkDefinition(
+        homeworkJson,
+        `homeworks.${name}`,
+        mailTemplateVariants,
+      ),
+    ]),
+  );
+}
+
+// Without a catalog every homework is the template project of the same name with the default settings
+export function defaultHomeworkDefinition(
+  templateProject: string,
+  correctionGuideLink?: string,
+): HomeworkDefinition {
+  return {
+    templateProject,
+    durationInDays: DEFAULT_HOMEWORK_DURATION_IN_DAYS,
+    correctionGuideLink,
+    issueQuestions: {},
+    mailTemplate: "default",
+    solutionBranches: DEFAULT_SOLUTION_BRANCHES,
+  };
+}
+
+function parseHomeworkDefinition(
+  json: unknown,
+  path: string,
+  mailTemplateVariants: string[],
+): HomeworkDefinition {
+  const homework = expectObject(json, path);
+
+  const durationInDays = expectInteger(
+    homework.durationInDays ?? DEFAULT_HOMEWORK_DURATION_IN_DAYS,
+    `${path}.durationInDays`,
+  );
+  if (durationInDays < 1) {
+    throw new ConfigError(`"${path}.durationInDays" has to be at least 1.`);
+  }
+
+  return {
+    templateProject: expectString(
+      homework.templateProject,
+      `${path}.templateProject`,
+    ),
+    durationInDays,
+    correctionGuideLink: homework.correctionGuideLink === undefined
+      ? undefined
+      : expectString(
+        homework.correctionGuideLink,
+        `${path}.correctionGuideLink`,
+      ),
+    issueQuestions: parseIssueQuestions(
+      homework.issueQuestions,
+      `${path}.issueQuestions`,
+    ),
+    mailTemplate: expectOneOf(
+      homework.mailTemplate ?? "default",
+      `${path}.mailTemplate`,
+      mailTemplateVariants,
+    ),
+    solutionBranches: expectStringArray(
+      homework.solutionBranches ?? DEFAULT_SOLUTION_BRANCHES,
+      `${path}.solutionBranches`,
+    ),
+    evaluation: homework.evaluation === undefined
+      ? undefined
+      : parseHomeworkEvaluation(homework.evaluation, `${path}.evaluation`),
+    rubric: homework.rubric === undefined
+      ? undefined
+      : parseHomeworkRubric(homework.rubric, `${path}.rubric`),
+  };
+}
+
+function parseHomeworkRubric(json: unknown, path: string): HomeworkRubric {
+  const rubric = expectObject(json, path);
+
+  const criteria = expectArray(rubric.criteria, `${path}.criteria`).map(
+    (criterionJson, index) => {
+      const criterionPath = `${path}.criteria[${index}]`;
+      const criterion = expectObject(criterionJson, criterionPath);
+      const maxScore = expectInteger(
+        criterion.maxScore,
+        `${criterionPath}.maxScore`,
+      );
+      if (maxScore < 1) {
+        throw new ConfigError(
+          `"${criterionPath}.maxScore" has to be at least 1.`,
+        );
+      }
+      return {
+        title: expectString(criterion.title, `${criterionPath}.title`),
+        maxScore,
+      };
+    },
+  );
+  if (criteria.length === 0) {
+    throw new ConfigError(`"${path}.criteria" needs at least one criterion.`);
+  }
+
+  return {
+    project: expectString(rubric.project, `${path}.project`),
+    criteria,
+  };
+}
+
+function parseHomeworkEvaluation(
+  json: unknown,
+  path: string,
+): HomeworkEvaluation {
+  const evaluation = expectObject(json, path);
+
+  return {
+    project: expectString(evaluation.project, `${path}.project`),
+    ref: expectString(
+      evaluation.ref ?? DEFAULT_EVALUATION_REF,
+      `${path}.ref`,
+    ),
+  };
+}
+
+// A plain list of questions is used for every locale
+function parseIssueQuestions(
+  json: unknown,
+  path: string,
+): Partial<Record<Locale, string[]>> {
+  if (json === undefined) {
+    return {};
+  }
+  if (Array.isArray(json)) {
+    const questions = expectStringArray(json, path);
+    return Object.fromEntries(LOCALES.map((locale) => [locale, questions]));
+  }
+
+  const questionsByLocale = expectObject(json, path);
+  return Object.fromEntries(
+    Object.entries(questionsByLocale).map(([locale, questions]) => [
+      expectOneOf(locale, `${path}.${locale}`, LOCALES),
+      expectStringArray(questions, `${path}.${locale}`),
+    ]),
+  );
+}
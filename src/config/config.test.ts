@@ -0,0 +1,336 @@
+import {
+  assertEquals,
+  assertThrows,
+} from "https://deno.land/std@0.100.0/testing/asserts.ts";
+import { getOfferConfig, loadConfig, parseConfig } from "./config.ts";
+import { loadHomeworkCatalog } from "./catalog.ts";
+import { ConfigError } from "./ConfigError.ts";
+
+Deno.test("parseConfig accepts an empty config", () => {
+  assertEquals(parseConfig({}), {
+    offerBotTag: undefined,
+    onboarding: undefined,
+    offers: undefined,
+    reviewerPool: undefined,
+    candidateAccessAfterSubmission: undefined,
+  });
+});
+
+Deno.test("parseConfig rejects unknown candidate access after submission", () => {
+  assertThrows(
+    () => parseConfig({ candidateAccessAfterSubmission: "developer" }),
+    ConfigError,
+    '"candidateAccessAfterSubmission" has to be one of "reporter", "remove".',
+  );
+});
+
+Deno.test("parseConfig parses the onboarding config", () => {
+  const config = parseConfig({
+    onboarding: {
+      stage: "Eingestellt",
+      tasks: [{ title: "Arbeitsvertrag", adminIds: ["123"] }, {
+        title: "Laptop bestellen",
+      }],
+      homeworkRepository: "archive",
+    },
+  });
+
+  assertEquals(config.onboarding, {
+    stage: "Eingestellt",
+    tasks: [
+      { title: "Arbeitsvertrag", adminIds: ["123"] },
+      { title: "Laptop bestellen", adminIds: [] },
+    ],
+    homeworkRepository: "archive",
+  });
+});
+
+Deno.test("parseConfig keeps the homework repository by default", () => {
+  const config = parseConfig({ onboarding: { stage: "Eingestellt" } });
+
+  assertEquals(config.onboarding?.homeworkRepository, "keep");
+});
+
+Deno.test("parseConfig rejects invalid onboarding tasks", () => {
+  assertThrows(
+    () =>
+      parseConfig({
+        onboarding: { stage: "Eingestellt", tasks: [{ adminIds: [123] }] },
+      }),
+    ConfigError,
+    '"onboarding.tasks[0].title" has to be a non-empty string.',
+  );
+});
+
+Deno.test("parseConfig rejects unknown homework repository handling", () => {
+  assertThrows(
+    () =>
+      parseConfig({
+        onboarding: { stage: "Eingestellt", homeworkRepository: "burn" },
+      }),
+    ConfigError,
+    '"onboarding.homeworkRepository" has to be one of "keep", "archive", "delete".',
+  );
+});
+
+Deno.test("parseConfig parses follow-up tasks per offer", () => {
+  const config = parseConfig({
+    offers: {
+      "123": {
+        followUpTasks: [{
+          title: "Review vorbereiten",
+          adminIds: ["42"],
+          dueInDaysAfterHomework: 1,
+        }],
+      },
+    },
+  });
+
+  assertEquals(config.offers, {
+    "123": {
+      followUpTasks: [{
+        title: "Review vorbereiten",
+        adminIds: ["42"],
+        dueInDaysAfterHomework: 1,
+      }],
+      workflow: {},
+      locale: undefined,
+      calendar: undefined,
+    },
+  });
+});
+
+Deno.test("parseConfig rejects follow-up tasks without assignee", () => {
+  assertThrows(
+    () =>
+      parseConfig({
+        offers: { default: { followUpTasks: [{ title: "Review" }] } },
+      }),
+    ConfigError,
+    '"offers.default.followUpTasks[0].adminIds" has to be a list.',
+  );
+});
+
+Deno.test("parseConfig rejects offer keys that are no offer ids", () => {
+  assertThrows(
+    () => parseConfig({ offers: { "Frontend": {} } }),
+    ConfigError,
+    '"offers.Frontend" has to be an offer id or "default".',
+  );
+});
+
+Deno.test("getOfferConfig falls back to the default offer config", () => {
+  const config = parseConfig({
+    offers: {
+      "123": { followUpTasks: [] },
+      default: {
+        followUpTasks: [{ title: "Review vorbereiten", adminIds: ["42"] }],
+      },
+    },
+  });
+
+  assertEquals(getOfferConfig(config, 123).followUpTasks, []);
+  assertEquals(getOfferConfig(config, 456).followUpTasks, [{
+    title: "Review vorbereiten",
+    adminIds: ["42"],
+    dueInDaysAfterHomework: 0,
+  }]);
+  assertEquals(getOfferConfig({}, 456), {
+    followUpTasks: [],
+    workflow: {},
+    locale: undefined,
+    calendar: undefined,
+  });
+});
+
+Deno.test("getOfferConfig takes what an offer leaves out from the default offer", () => {
+  const config = parseConfig({
+    offers: {
+      "123": {
+        workflow: { homeworkTaskTitle: "Coding Challenge senden" },
+        calendar: { days: "business" },
+      },
+      default: {
+        followUpTasks: [{ title: "Review vorbereiten", adminIds: ["42"] }],
+        workflow: { errorTaskTitle: "Bot-Fehler prüfen" },
+        locale: "en",
+        calendar: { days: "calendar", holidays: "none" },
+      },
+    },
+  });
+
+  const offerConfig = getOfferConfig(config, 123);
+  assertEquals(offerConfig.followUpTasks, [{
+    title: "Review vorbereiten",
+    adminIds: ["42"],
+    dueInDaysAfterHomework: 0,
+  }]);
+  assertEquals(offerConfig.workflow, {
+    errorTaskTitle: "Bot-Fehler prüfen",
+    homeworkTaskTitle: "Coding Challenge senden",
+  });
+  assertEquals(offerConfig.locale, "en");
+  assertEquals(offerConfig.calendar?.days, "business");
+  assertEquals(offerConfig.calendar?.holidays, "none");
+});
+
+Deno.test("parseConfig parses the calendar of an offer", () => {
+  const config = parseConfig({
+    offers: {
+      default: {
+        calendar: {
+          days: "business",
+          additionalHolidays: ["2021-12-24"],
+          moveToNextWorkingDay: true,
+        },
+      },
+    },
+  });
+
+  assertEquals(config.offers?.default.calendar, {
+    days: "business",
+    additionalHolidays: ["2021-12-24"],
+    moveToNextWorkingDay: true,
+  });
+});
+
+Deno.test("getOfferConfig merges the calendar setting by setting", () => {
+  const config = parseConfig({
+    offers: {
+      "123": { calendar: { holidays: "DE" } },
+      default: { calendar: { days: "business", moveToNextWorkingDay: true } },
+    },
+  });
+
+  assertEquals(getOfferConfig(config, 123).calendar, {
+    days: "business",
+    holidays: "DE",
+    additionalHolidays: [],
+    moveToNextWorkingDay: true,
+  });
+  assertEquals(getOfferConfig(config, 456).calendar, {
+    days: "business",
+    holidays: "DE-NW",
+    additionalHolidays: [],
+    moveToNextWorkingDay: true,
+  });
+});
+
+Deno.test("parseConfig rejects additional holidays that are no dates", () => {
+  assertThrows(
+    () =>
+      parseConfig({
+        offers: { default: { calendar: { additionalHolidays: ["24.12."] } } },
+      }),
+    ConfigError,
+    '"offers.default.calendar.additionalHolidays[0]" has to be a date like "2021-12-24".',
+  );
+});
+
+Deno.test("parseConfig parses the reviewer pool with defaults", () => {
+  const config = parseConfig({
+    reviewerPool: {
+      strategy: "roundRobin",
+      reviewers: [
+        {
+          adminId: "12345",
+          gitlabUsername: "alice",
+          homeworks: ["backend"],
+          capacity: 2,
+          absences: [{ from: "2021-12-20", to: "2022-01-02" }],
+        },
+        { adminId: "67890" },
+      ],
+    },
+  });
+
+  assertEquals(config.reviewerPool, {
+    strategy: "roundRobin",
+    reviewersPerSubmission: 1,
+    reviewWindowInDays: 14,
+    reviewers: [
+      {
+        adminId: "12345",
+        gitlabUsername: "alice",
+        homeworks: ["backend"],
+        capacity: 2,
+        absences: [{ from: "2021-12-20", to: "2022-01-02" }],
+      },
+      {
+        adminId: "67890",
+        gitlabUsername: undefined,
+        homeworks: [],
+        capacity: 1,
+        absences: [],
+      },
+    ],
+  });
+});
+
+Deno.test("parseConfig rejects reviewer homeworks missing in the catalog", () => {
+  assertThrows(
+    () =>
+      parseConfig(
+        {
+          reviewerPool: {
+            reviewers: [{ adminId: "12345", homeworks: ["backend"] }],
+          },
+        },
+        ["Backend", "Frontend"],
+      ),
+    ConfigError,
+    '"reviewerPool.reviewers[0].homeworks[0]" has to be one of "Backend", "Frontend".',
+  );
+});
+
+Deno.test("parseConfig rejects review windows shorter than a day", () => {
+  assertThrows(
+    () =>
+      parseConfig({
+        reviewerPool: { reviewWindowInDays: 0, reviewers: [] },
+      }),
+    ConfigError,
+    '"reviewerPool.reviewWindowInDays" has to be at least 1.',
+  );
+});
+
+Deno.test("parseConfig rejects reviewers without capacity", () => {
+  assertThrows(
+    () =>
+      parseConfig({
+        reviewerPool: {
+          reviewers: [{ adminId: "12345", capacity: 0 }],
+        },
+      }),
+    ConfigError,
+    '"reviewerPool.reviewers[0].capacity" has to be at least 1.',
+  );
+});
+
+Deno.test("parseConfig rejects absences ending before they start", () => {
+  assertThrows(
+    () =>
+      parseConfig({
+        reviewerPool: {
+          reviewers: [{
+            adminId: "12345",
+            absences: [{ from: "2022-01-02", to: "2021-12-20" }],
+          }],
+        },
+      }),
+    ConfigError,
+    '"reviewerPool.reviewers[0].absences[0].to" has to be after "reviewerPool.reviewers[0].absences[0].from".',
+  );
+});
+
+Deno.test("the example config fits the example homework catalog", async () => {
+  const catalog = await loadHomeworkCatalog(
+    new URL("../../homework-catalog.example.json", import.meta.url).pathname,
+  );
+  const config = await loadConfig(
+    new URL("../../bot-config.example.json", import.meta.url).pathname,
+    Object.keys(catalog!),
+  );
+
+  assertEquals(config.reviewerPool?.reviewers[0].homeworks, ["Backend"]);
+});
@@ -0,0 +1,310 @@
+import {
+  Absence,
+  BotConfig,
+  CalendarConfig,
+  EffectiveOfferConfig,
+  FollowUpTask,
+  OfferConfig,
+  OnboardingConfig,
+  Reviewer,
+  ReviewerPoolConfig,
+} from "./types.ts";
+import { ConfigError } from "./ConfigError.ts";
+import { readJsonFile } from "./json.ts";
+import { parseWorkflowOverrides } from "./workflow.ts";
+import { LOCALES } from "../messages.ts";
+import { HOLIDAY_REGIONS } from "../calendar/holidays.ts";
+import {
+  expectArray,
+  expectBoolean,
+  expectInteger,
+  expectObject,
+  expectOneOf,
+  expectString,
+  expectStringArray,
+} from "./validation.ts";
+
+export const DEFAULT_OFFER_CONFIG_KEY = "default";
+
+export const DEFAULT_REVIEW_WINDOW_IN_DAYS = 14;
+
+export const DEFAULT_CALENDAR_CONFIG: CalendarConfig = {
+  days: "calendar",
+  holidays: "DE-NW",
+  additionalHolidays: [],
+  moveToNextWorkingDay: false,
+};
+
+// Without homework names, e.g. without a homework catalog, the homeworks of reviewers are not checked
+export async function loadConfig(
+  path: string,
+  homeworkNames?: string[],
+): Promise<BotConfig> {
+  const json = await readJsonFile(path);
+  if (json === undefined) {
+    console.warn(`[Config] ${path} not found. Using the default config.`);
+    return {};
+  }
+
+  return parseConfig(json, homeworkNames);
+}
+
+export function parseConfig(
+  json: unknown,
+  homeworkNames?: string[],
+): BotConfig {
+  const config = expectObject(json, "config");
+
+  return {
+    offerBotTag: config.offerBotTag === undefined
+      ? undefined
+      : expectString(config.offerBotTag, "offerBotTag"),
+    onboarding: config.onboarding === undefined
+      ? undefined
+      : parseOnboardingConfig(config.onboarding),
+    offers: config.offers === undefined
+      ? undefined
+      : parseOffersConfig(config.offers),
+    reviewerPool: config.reviewerPool === undefined
+      ? undefined
+      : parseReviewerPoolConfig(config.reviewerPool, homeworkNames),
+    candidateAccessAfterSubmission:
+      config.candidateAccessAfterSubmission === undefined
+        ? undefined
+        : expectOneOf(
+          config.candidateAccessAfterSubmission,
+          "candidateAccessAfterSubmission",
+          ["reporter", "remove"] as const,
+        ),
+  };
+}
+
+// Offers are configured by their Recruitee offer id, "default" applies to all other offers.
+// Every setting an offer leaves out is taken from "default", the workflow and calendar one by one.
+export function getOfferConfig(
+  config: BotConfig,
+  offerId: number,
+): EffectiveOfferConfig {
+  const defaultOffer = config.offers?.[DEFAULT_OFFER_CONFIG_KEY];
+  const offer = config.offers?.[String(offerId)];
+
+  return {
+    followUpTasks: offer?.followUpTasks ?? defaultOffer?.followUpTasks ?? [],
+    workflow: { ...defaultOffer?.workflow, ...offer?.workflow },
+    locale: offer?.locale ?? defaultOffer?.locale,
+    calendar: offer?.calendar || defaultOffer?.calendar
+      ? {
+        ...DEFAULT_CALENDAR_CONFIG,
+        ...defaultOffer?.calendar,
+        ...offer?.calendar,
+      }
+      : undefined,
+  };
+}
+
+function parseOffersConfig(json: unknown): Record<string, OfferConfig> {
+  const offers = expectObject(json, "offers");
+
+  return Object.fromEntries(
+    Object.entries(offers).map(([key, offerJson]) => {
+      if (key !== DEFAULT_OFFER_CONFIG_KEY && !/^\d+$/.test(key)) {
+        throw new ConfigError(
+          `"offers.${key}" has to be an offer id or "${DEFAULT_OFFER_CONFIG_KEY}".`,
+        );
+      }
+      return [key, parseOfferConfig(offerJson, `offers.${key}`)];
+    }),
+  );
+}
+
+function parseOfferConfig(json: unknown, path: string): OfferConfig {
+  const offer = expectObject(json, path);
+
+  return {
+    followUpTasks: offer.followUpTasks === undefined
+      ? undefined
+      : expectArray(offer.followUpTasks, `${path}.followUpTasks`).map(
+        (taskJson, index) =>
+          parseFollowUpTask(taskJson, `${path}.followUpTasks[${index}]`),
+      ),
+    workflow: parseWorkflowOverrides(offer.workflow ?? {}, `${path}.workflow`),
+    locale: offer.locale === undefined
+      ? undefined
+      : expectOneOf(offer.locale, `${path}.locale`, LOCALES),
+    calendar: offer.calendar === undefined
+      ? undefined
+      : parseCalendarConfig(offer.calendar, `${path}.calendar`),
+  };
+}
+
+// Only the given settings are kept, the others are taken from the default offer
+function parseCalendarConfig(
+  json: unknown,
+  path: string,
+): Partial<CalendarConfig> {
+  const calendar = expectObject(json, path);
+  const config: Partial<CalendarConfig> = {};
+
+  if (calendar.days !== undefined) {
+    config.days = expectOneOf(
+      calendar.days,
+      `${path}.days`,
+      ["calendar", "business"] as const,
+    );
+  }
+  if (calendar.holidays !== undefined) {
+    config.holidays = expectOneOf(
+      calendar.holidays,
+      `${path}.holidays`,
+      [...HOLIDAY_REGIONS, "none"] as const,
+    );
+  }
+  if (calendar.additionalHolidays !== undefined) {
+    config.additionalHolidays = expectStringArray(
+      calendar.additionalHolidays,
+      `${path}.additionalHolidays`,
+    ).map((date, index) =>
+      expectISODate(date, `${path}.additionalHolidays[${index}]`)
+    );
+  }
+  if (calendar.moveToNextWorkingDay !== undefined) {
+    config.moveToNextWorkingDay = expectBoolean(
+      calendar.moveToNextWorkingDay,
+      `${path}.moveToNextWorkingDay`,
+    );
+  }
+
+  return config;
+}
+
+function parseFollowUpTask(json: unknown, path: string): FollowUpTask {
+  const task = expectObject(json, path);
+
+  return {
+    title: expectString(task.title, `${path}.title`),
+    adminIds: expectStringArray(task.adminIds, `${path}.adminIds`),
+    dueInDaysAfterHomework: expectInteger(
+      task.dueInDaysAfterHomework ?? 0,
+      `${path}.dueInDaysAfterHomework`,
+    ),
+  };
+}
+
+function parseOnboardingConfig(json: unknown): OnboardingConfig {
+  const onboarding = expectObject(json, "onboarding");
+
+  return {
+    stage: expectString(onboarding.stage, "onboarding.stage"),
+    tasks: expectArray(onboarding.tasks ?? [], "onboarding.tasks").map(
+      (taskJson, index) => {
+        const path = `onboarding.tasks[${index}]`;
+        const task = expectObject(taskJson, path);
+        return {
+          title: expectString(task.title, `${path}.title`),
+          adminIds: expectStringArray(task.adminIds ?? [], `${path}.adminIds`),
+        };
+      },
+    ),
+    homeworkRepository: expectOneOf(
+      onboarding.homeworkRepository ?? "keep",
+      "onboarding.homeworkRepository",
+      ["keep", "archive", "delete"] as const,
+    ),
+  };
+}
+
+function expectISODate(value: unknown, path: string): string {
+  const date = expectString(value, path);
+  if (!/^\d{4}-\d{2}-\d{2}$/.test(date)) {
+    throw new ConfigError(`"${path}" has to be a date like "2021-12-24".`);
+  }
+  return date;
+}
+
+function parseReviewerPoolConfig(
+  json: unknown,
+  homeworkNames: string[] | undefined,
+): ReviewerPoolConfig {
+  const pool = expectObject(json, "reviewerPool");
+
+  const reviewersPerSubmission = expectInteger(
+    pool.reviewersPerSubmission ?? 1,
+    "reviewerPool.reviewersPerSubmission",
+  );
+  if (reviewersPerSubmission < 1) {
+    throw new ConfigError(
+      `"reviewerPool.reviewersPerSubmission" has to be at least 1.`,
+    );
+  }
+
+  const reviewWindowInDays = expectInteger(
+    pool.reviewWindowInDays ?? DEFAULT_REVIEW_WINDOW_IN_DAYS,
+    "reviewerPool.reviewWindowInDays",
+  );
+  if (reviewWindowInDays < 1) {
+    throw new ConfigError(
+      `"reviewerPool.reviewWindowInDays" has to be at least 1.`,
+    );
+  }
+
+  return {
+    strategy: expectOneOf(
+      pool.strategy ?? "leastLoaded",
+      "reviewerPool.strategy",
+      ["roundRobin", "leastLoaded"] as const,
+    ),
+    reviewersPerSubmission,
+    reviewWindowInDays,
+    reviewers: expectArray(pool.reviewers, "reviewerPool.reviewers").map(
+      (reviewerJson, index) =>
+        parseReviewer(
+          reviewerJson,
+          `reviewerPool.reviewers[${index}]`,
+          homeworkNames,
+        ),
+    ),
+  };
+}
+
+function parseReviewer(
+  json: unknown,
+  path: string,
+  homeworkNames: string[] | undefined,
+): Reviewer {
+  const reviewer = expectObject(json, path);
+
+  const capacity = expectInteger(reviewer.capacity ?? 1, `${path}.capacity`);
+  if (capacity < 1) {
+    throw new ConfigError(`"${path}.capacity" has to be at least 1.`);
+  }
+
+  return {
+    adminId: expectString(reviewer.adminId, `${path}.adminId`),
+    gitlabUsername: reviewer.gitlabUsername === undefined
+      ? undefined
+      : expectString(reviewer.gitlabUsername, `${path}.gitlabUsername`),
+    homeworks: expectStringArray(
+      reviewer.homeworks ?? [],
+      `${path}.homeworks`,
+    ).map((homework, index) =>
+      homeworkNames
+        ? expectOneOf(homework, `${path}.homeworks[${index}]`, homeworkNames)
+        : homework
+    ),
+    capacity,
+    absences: expectArray(reviewer.absences ?? [], `${path}.absences`).map(
+      (absenceJson, index) =>
+        parseAbsence(absenceJson, `${path}.absences[${index}]`),
+    ),
+  };
+}
+
+function parseAbsence(json: unknown, path: string): Absence {
+  const absence = expectObject(json, path);
+  const from = expectISODate(absence.from, `${path}.from`);
+  const to = expectISODate(absence.to, `${path}.to`);
+  if (to < from) {
+    throw new ConfigError(`"${path}.to" has to be after "${path}.from".`);
+  }
+  return { from, to };
+}
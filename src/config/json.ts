@@ -0,0 +1,19 @@
+import { ConfigError } from "./ConfigError.ts";
+
+export async function readJsonFile(path: string): Promise<unknown> {
+  let content: string;
+  try {
+    content = await Deno.readTextFile(path);
+  } catch (error) {
+    if (error instanceof Deno.errors.NotFound) {
+      return undefined;
+    }
+    throw error;
+  }
+
+  try {
+    return JSON.parse(content);
+  } catch (error) {
+    throw new ConfigError(`${path} is not valid JSON: ${error.message}`);
+  }
+}
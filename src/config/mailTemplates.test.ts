@@ -0,0 +1,157 @@
+import {
+  assertEquals,
+  assertThrows,
+  assertThrowsAsync,
+} from "https://deno.land/std@0.100.0/testing/asserts.ts";
+import {
+  compileMailTemplate,
+  getMailTemplateVariants,
+  loadMailTemplates,
+  renderSendHomeworkMail,
+} from "./mailTemplates.ts";
+import { ConfigError } from "./ConfigError.ts";
+import { getMessages, SendHomeworkTemplateValues } from "../messages.ts";
+
+const values: SendHomeworkTemplateValues = {
+  applicantName: "Sam <Admin>",
+  // deno-lint-ignore camelcase
+  mk_signature: "deine sipgate hacking talents",
+  projectUrl: "https://gitlab.com/homework/sam",
+  issueUrl: "https://gitlab.com/homework/sam/-/issues/1",
+  homeworkDueDate: new Date("2021-12-24T10:00:00Z"),
+};
+
+async function withTemplateDirectory(
+  files: Record<string, string>,
+  test: (directory: string) => Promise<void>,
+) {
+  const directory = await Deno.makeTempDir();
+  try {
+    for (const [path, content] of Object.entries(files)) {
+      await Deno.mkdir(`${directory}/${path.split("/")[0]}`, {
+        recursive: true,
+      });
+      await Deno.writeTextFile(`${directory}/${path}`, content);
+    }
+    await test(directory);
+  } finally {
+    await Deno.remove(directory, { recursive: true });
+  }
+}
+
+Deno.test("compileMailTemplate replaces placeholders and formats dates", () => {
+  const template = compileMailTemplate(
+    "Hallo {{applicantName}}, bis zum {{ homeworkDueDate }}: {{ issueUrl }}",
+    "default.txt",
+    "de-informal",
+  );
+
+  assertEquals(
+    template(values),
+    "Hallo Sam <Admin>, bis zum 24.12.: https://gitlab.com/homework/sam/-/issues/1",
+  );
+});
+
+Deno.test("compileMailTemplate escapes values with the given escape", () => {
+  const template = compileMailTemplate(
+    "<p>Hallo {{ applicantName }}</p>",
+    "default.html",
+    "de-informal",
+    (value) => value.replace(/</g, "&lt;").replace(/>/g, "&gt;"),
+  );
+
+  assertEquals(template(values), "<p>Hallo Sam &lt;Admin&gt;</p>");
+});
+
+Deno.test("compileMailTemplate rejects unknown placeholders", () => {
+  assertThrows(
+    () => compileMailTemplate("Hallo {{ name }}", "default.txt", "en"),
+    ConfigError,
+    'default.txt contains the unknown placeholder "{{ name }}"',
+  );
+});
+
+Deno.test("compileMailTemplate rejects unclosed placeholders", () => {
+  assertThrows(
+    () => compileMailTemplate("Hallo {{ applicantName", "default.txt", "en"),
+    ConfigError,
+    "default.txt contains an unclosed placeholder.",
+  );
+});
+
+Deno.test("loadMailTemplates returns null without a template directory", async () => {
+  assertEquals(await loadMailTemplates("./does-not-exist"), null);
+});
+
+Deno.test("loadMailTemplates reads HTML and text per locale", async () => {
+  await withTemplateDirectory({
+    "en/short.html": "<p>Hi {{ applicantName }}</p>",
+    "en/short.txt": "Hi {{ applicantName }}",
+  }, async (directory) => {
+    const templates = await loadMailTemplates(directory);
+
+    const mail = renderSendHomeworkMail(templates, "en", "short", values);
+    assertEquals(mail, {
+      html: "<p>Hi Sam &lt;Admin&gt;</p>",
+      text: "Hi Sam <Admin>",
+    });
+  });
+});
+
+Deno.test("loadMailTemplates does not require a text version", async () => {
+  await withTemplateDirectory({
+    "en/short.html": "<p>Hi {{ applicantName }}</p>",
+  }, async (directory) => {
+    const templates = await loadMailTemplates(directory);
+
+    const mail = renderSendHomeworkMail(templates, "en", "short", values);
+    assertEquals(mail, {
+      html: "<p>Hi Sam &lt;Admin&gt;</p>",
+      text: undefined,
+    });
+  });
+});
+
+Deno.test("loadMailTemplates requires an HTML version", async () => {
+  await withTemplateDirectory({
+    "en/short.txt": "Hi {{ applicantName }}",
+  }, async (directory) => {
+    await assertThrowsAsync(
+      () => loadMailTemplates(directory),
+      ConfigError,
+      `${directory}/en/short.html is missing.`,
+    );
+  });
+});
+
+Deno.test("loadMailTemplates rejects unknown locales", async () => {
+  await withTemplateDirectory({
+    "fr/default.html": "",
+    "fr/default.txt": "",
+  }, async (directory) => {
+    await assertThrowsAsync(
+      () => loadMailTemplates(directory),
+      ConfigError,
+      `"${directory}/fr" has to be one of "de-informal", "de-formal", "en".`,
+    );
+  });
+});
+
+Deno.test("getMailTemplateVariants only offers variants of every locale", () => {
+  const template = { html: () => "", text: () => "" };
+
+  assertEquals(
+    getMailTemplateVariants({
+      "de-informal": { short: template, long: template },
+      "de-formal": { short: template },
+      en: { short: template },
+    }),
+    ["default", "short"],
+  );
+});
+
+Deno.test("renderSendHomeworkMail falls back to the built-in template", () => {
+  assertEquals(renderSendHomeworkMail(null, "en", "default", values), {
+    html: getMessages("en").sendHomeworkTemplates.default(values),
+  });
+});
@@ -0,0 +1,196 @@
+import { MailTemplate, MailTemplates } from "./types.ts";
+import { ConfigError } from "./ConfigError.ts";
+import {
+  getMessages,
+  isLocale,
+  Locale,
+  LOCALES,
+  SendHomeworkTemplateValues,
+} from "../messages.ts";
+
+// Typed as a record, so every value of the homework mail has to be listed here
+const SEND_HOMEWORK_VALUES: Record<keyof SendHomeworkTemplateValues, true> = {
+  applicantName: true,
+  // deno-lint-ignore camelcase
+  mk_signature: true,
+  projectUrl: true,
+  issueUrl: true,
+  homeworkDueDate: true,
+};
+export const SEND_HOMEWORK_PLACEHOLDERS = Object.keys(SEND_HOMEWORK_VALUES);
+
+// Placeholders look like {{ applicantName }}, the capture group is the name
+const PLACEHOLDER_PATTERN = /{{\s*([^{}]*?)\s*}}/;
+
+export async function loadMailTemplates(
+  directory: string,
+): Promise<MailTemplates | null> {
+  const localeDirectories = await readDirectory(directory);
+  if (localeDirectories === undefined) {
+    console.warn(
+      `[Config] ${directory} not found. Using the built-in mail templates.`,
+    );
+    return null;
+  }
+
+  const templates: MailTemplates = {};
+  for (const entry of localeDirectories) {
+    if (!entry.isDirectory) {
+      continue;
+    }
+    if (!isLocale(entry.name)) {
+      throw new ConfigError(
+        `"${directory}/${entry.name}" has to be one of ${
+          LOCALES.map((locale) => `"${locale}"`).join(", ")
+        }.`,
+      );
+    }
+    templates[entry.name] = await loadLocaleTemplates(
+      `${directory}/${entry.name}`,
+      entry.name,
+    );
+  }
+  return templates;
+}
+
+// Every variant consists of <variant>.html and an optional <variant>.txt, which is only shown in the preview
+async function loadLocaleTemplates(
+  directory: string,
+  locale: Locale,
+): Promise<Record<string, MailTemplate>> {
+  const files = await readDirectory(directory) ?? [];
+  const fileNames = files
+    .filter((file) => file.isFile)
+    .map((file) => file.name);
+  const variants = new Set(
+    fileNames
+      .map((fileName) => fileName.match(/^(.+)\.(html|txt)$/)?.[1])
+      .filter((variant): variant is string => variant !== undefined),
+  );
+
+  const templates: Record<string, MailTemplate> = {};
+  for (const variant of variants) {
+    const htmlPath = `${directory}/${variant}.html`;
+    const textPath = `${directory}/${variant}.txt`;
+    templates[variant] = {
+      html: compileMailTemplate(
+        await readTemplateFile(htmlPath),
+        htmlPath,
+        locale,
+        escapeHtml,
+      ),
+      text: fileNames.includes(`${variant}.txt`)
+        ? compileMailTemplate(
+          await readTemplateFile(textPath),
+          textPath,
+          locale,
+        )
+        : undefined,
+    };
+  }
+  return templates;
+}
+
+export function compileMailTemplate(
+  source: string,
+  path: string,
+  locale: Locale,
+  escape: (value: string) => string = (value) => value,
+): (values: SendHomeworkTemplateValues) => string {
+  // Splitting by a pattern with a capture group puts the placeholder names at the odd indices
+  const parts = source.split(new RegExp(PLACEHOLDER_PATTERN, "g"));
+
+  parts.forEach((part, index) => {
+    if (index % 2 === 0) {
+      if (part.includes("{{")) {
+        throw new ConfigError(`${path} contains an unclosed placeholder.`);
+      }
+    } else if (!SEND_HOMEWORK_PLACEHOLDERS.includes(part)) {
+      throw new ConfigError(
+        `${path} contains the unknown placeholder "{{ ${part} }}". Allowed are ${
+          SEND_HOMEWORK_PLACEHOLDERS.join(", ")
+        }.`,
+      );
+    }
+  });
+
+  const { formatDate } = getMessages(locale);
+  return (values) =>
+    parts.map((part, index) => {
+      if (index % 2 === 0) {
+        return part;
+      }
+      const value = values[part as keyof SendHomeworkTemplateValues];
+      return escape(value instanceof Date ? formatDate(value) : value);
+    }).join("");
+}
+
+// A variant can be chosen for a homework if every locale has it, built in or as a file
+export function getMailTemplateVariants(
+  mailTemplates: MailTemplates | null,
+): string[] {
+  const variantsOf = (locale: Locale) => [
+    ...Object.keys(getMessages(locale).sendHomeworkTemplates),
+    ...Object.keys(mailTemplates?.[locale] ?? {}),
+  ];
+
+  const allVariants = new Set(LOCALES.flatMap(variantsOf));
+  return [...allVariants].filter((variant) =>
+    LOCALES.every((locale) => variantsOf(locale).includes(variant))
+  );
+}
+
+// File templates take precedence, only they may have a plain text version
+export function renderSendHomeworkMail(
+  mailTemplates: MailTemplates | null,
+  locale: Locale,
+  variant: string,
+  values: SendHomeworkTemplateValues,
+): { html: string; text?: string } {
+  const template = mailTemplates?.[locale]?.[variant];
+  if (template) {
+    return { html: template.html(values), text: template.text?.(values) };
+  }
+
+  return { html: getMessages(locale).sendHomeworkTemplates[variant](values) };
+}
+
+const HTML_ENTITIES: Record<string, string> = {
+  "&": "&amp;",
+  "<": "&lt;",
+  ">": "&gt;",
+  '"': "&quot;",
+  "'": "&#39;",
+};
+
+function escapeHtml(value: string): string {
+  return value.replace(/[&<>"']/g, (character) => HTML_ENTITIES[character]);
+}
+
+async function readDirectory(
+  path: string,
+): Promise<Deno.DirEntry[] | undefined> {
+  try {
+    const entries: Deno.DirEntry[] = [];
+    for await (const entry of Deno.readDir(path)) {
+      entries.push(entry);
+    }
+    return entries;
+  } catch (error) {
+    if (error instanceof Deno.errors.NotFound) {
+      return undefined;
+    }
+    throw error;
+  }
+}
+
+async function readTemplateFile(path: string): Promise<string> {
+  try {
+    return await Deno.readTextFile(path);
+  } catch (error) {
+    if (error instanceof Deno.errors.NotFound) {
+      throw new ConfigError(`${path} is missing.`);
+    }
+    throw error;
+  }
+}
@@ -0,0 +1,141 @@
+import { Locale, SendHomeworkTemplateValues } from "../messages.ts";
+import { HolidayRegion } from "../calendar/holidays.ts";
+
+export type BotConfig = {
+  offerBotTag?: string;
+  onboarding?: OnboardingConfig;
+  offers?: Record<string, OfferConfig>;
+  reviewerPool?: ReviewerPoolConfig;
+  // What is left of the candidate's access to the fork once they submitted
+  candidateAccessAfterSubmission?: "reporter" | "remove";
+};
+
+export type OfferConfig = {
+  followUpTasks?: FollowUpTask[];
+  workflow: Partial<WorkflowConfig>;
+  locale?: Locale;
+  // Without a calendar, due dates are counted in calendar days
+  calendar?: Partial<CalendarConfig>;
+};
+
+// The config of an offer with the settings it leaves out taken from the default offer
+export type EffectiveOfferConfig = Omit<OfferConfig, "calendar"> & {
+  followUpTasks: FollowUpTask[];
+  calendar?: CalendarConfig;
+};
+
+export type CalendarConfig = {
+  days: "calendar" | "business";
+  holidays: HolidayRegion | "none";
+  // ISO dates, e.g. company-wide days off
+  additionalHolidays: string[];
+  moveToNextWorkingDay: boolean;
+};
+
+export type WorkflowConfig = {
+  homeworkTaskTitle: string;
+  homeworkExtensionTaskTitle: string;
+  errorTaskTitle: string;
+  overdueTaskTitle: string;
+  assignMkTaskTitle: string;
+  reviewTaskTitle: string;
+  homeworkSentStageTitle: string;
+  homeworkReceivedStageTitle: string;
+  reviewedStageTitle: string;
+  overdueStageTitle?: string;
+  homeworkFieldName: string;
+  gitlabUsernameFieldName: string;
+  gitlabRepoFieldName: string;
+  correctionGuideFieldName?: string;
+  // Without the field the merge request is linked in a note
+  mergeRequestFieldName?: string;
+  addressFieldName: string;
+  signatureFieldName: string;
+  shouldSendMailFieldName: string;
+  localeFieldName: string;
+  errorTag: string;
+};
+
+export type FollowUpTask = {
+  title: string;
+  adminIds: string[];
+  dueInDaysAfterHomework: number;
+};
+
+export type OnboardingConfig = {
+  stage: string;
+  tasks: OnboardingTask[];
+  homeworkRepository: "keep" | "archive" | "delete";
+};
+
+export type OnboardingTask = {
+  title: string;
+  adminIds: string[];
+};
+
+export type ReviewerPoolConfig = {
+  strategy: "roundRobin" | "leastLoaded";
+  reviewersPerSubmission: number;
+  // Days reviewers can read the candidate's fork, counted like the homework duration
+  reviewWindowInDays: number;
+  reviewers: Reviewer[];
+};
+
+export type Reviewer = {
+  adminId: string;
+  // Reviewers without a GitLab account only get the Recruitee task
+  gitlabUsername?: string;
+  // Homeworks the reviewer can grade, all homeworks if empty
+  homeworks: string[];
+  // Maximum number of unfinished reviews at the same time
+  capacity: number;
+  absences: Absence[];
+};
+
+// ISO dates, both inclusive
+export type Absence = {
+  from: string;
+  to: string;
+};
+
+export type HomeworkCatalog = Record<string, HomeworkDefinition>;
+
+export type HomeworkDefinition = {
+  templateProject: string;
+  durationInDays: number;
+  correctionGuideLink?: string;
+  // Homeworks without questions for a locale use the default questions of that locale
+  issueQuestions: Partial<Record<Locale, string[]>>;
+  mailTemplate: string;
+  solutionBranches: string[];
+  evaluation?: HomeworkEvaluation;
+  rubric?: HomeworkRubric;
+};
+
+// The private project whose pipeline runs the hidden tests against a submission
+export type HomeworkEvaluation = {
+  project: string;
+  ref: string;
+};
+
+// The review issue is opened in an internal project, the candidate could read or close it in their fork
+export type HomeworkRubric = {
+  project: string;
+  criteria: RubricCriterion[];
+};
+
+export type RubricCriterion = {
+  title: string;
+  maxScore: number;
+};
+
+export type MailTemplate = {
+  html: (values: SendHomeworkTemplateValues) => string;
+  // Recruitee only takes HTML, the text version is there to review the wording
+  text?: (values: SendHomeworkTemplateValues) => string;
+};
+
+// Templates read from files, by locale and variant
+export type MailTemplates = Partial<
+  Record<Locale, Record<string, MailTemplate>>
+>;
@@ -0,0 +1,59 @@
+import { ConfigError } from "./ConfigError.ts";
+
+export type ConfigObject = Record<string, unknown>;
+
+export function expectObject(value: unknown, path: string): ConfigObject {
+  if (typeof value !== "object" || value === null || Array.isArray(value)) {
+    throw new ConfigError(`"${path}" has to be an object.`);
+  }
+  return value as ConfigObject;
+}
+
+export function expectArray(value: unknown, path: string): unknown[] {
+  if (!Array.isArray(value)) {
+    throw new ConfigError(`"${path}" has to be a list.`);
+  }
+  return value;
+}
+
+export function expectString(value: unknown, path: string): string {
+  if (typeof value !== "string" || value.trim() === "") {
+    throw new ConfigError(`"${path}" has to be a non-empty string.`);
+  }
+  return value;
+}
+
+export function expectInteger(value: unknown, path: string): number {
+  if (typeof value !== "number" || !Number.isInteger(value)) {
+    throw new ConfigError(`"${path}" has to be an integer.`);
+  }
+  return value;
+}
+
+export function expectBoolean(value: unknown, path: string): boolean {
+  if (typeof value !== "boolean") {
+    throw new ConfigError(`"${path}" has to be true or false.`);
+  }
+  return value;
+}
+
+export function expectStringArray(value: unknown, path: string): string[] {
+  return expectArray(value, path).map((item, index) =>
+    expectString(item, `${path}[${index}]`)
+  );
+}
+
+export function expectOneOf<T extends string>(
+  value: unknown,
+  path: string,
+  allowed: readonly T[],
+): T {
+  if (!allowed.includes(value as T)) {
+    throw new ConfigError(
+      `"${path}" has to be one of ${
+        allowed.map((item) => `"${item}"`).join(", ")
+      }.`,
+    );
+  }
+  return value as T;
+}
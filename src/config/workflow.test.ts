@@ -0,0 +1,73 @@
+import {
+  assertEquals,
+  assertThrows,
+} from "https://deno.land/std@0.100.0/testing/asserts.ts";
+import { parseConfig } from "./config.ts";
+import { ConfigError } from "./ConfigError.ts";
+import {
+  DEFAULT_OFFER_BOT_TAG,
+  DEFAULT_WORKFLOW_CONFIG,
+  getOfferBotTag,
+  getWorkflowConfig,
+} from "./workflow.ts";
+
+Deno.test("getWorkflowConfig uses today's names by default", () => {
+  const workflow = getWorkflowConfig({}, 123);
+
+  assertEquals(workflow.homeworkTaskTitle, "hausaufgabe");
+  assertEquals(workflow.homeworkSentStageTitle, "Hausaufgabe versendet");
+  assertEquals(workflow.gitlabUsernameFieldName, "GitLab Account");
+  assertEquals(workflow.errorTag, "Bot-Fehler aufgetreten");
+  assertEquals(getOfferBotTag({}), DEFAULT_OFFER_BOT_TAG);
+});
+
+Deno.test("getWorkflowConfig merges default and offer overrides", () => {
+  const config = parseConfig({
+    offers: {
+      default: { workflow: { homeworkTaskTitle: "Coding Challenge" } },
+      "123": { workflow: { homeworkSentStageTitle: "Challenge versendet" } },
+    },
+  });
+
+  assertEquals(getWorkflowConfig(config, 123), {
+    ...getWorkflowConfig({}),
+    homeworkTaskTitle: "Coding Challenge",
+    homeworkSentStageTitle: "Challenge versendet",
+  });
+  assertEquals(
+    getWorkflowConfig(config, 456).homeworkSentStageTitle,
+    DEFAULT_WORKFLOW_CONFIG.homeworkSentStageTitle,
+  );
+});
+
+Deno.test("getWorkflowConfig falls back to the environment for optional names", () => {
+  Deno.env.set("OVERDUE_STAGE_TITLE", "Hausaufgabe überfällig");
+  try {
+    assertEquals(
+      getWorkflowConfig({}).overdueStageTitle,
+      "Hausaufgabe überfällig",
+    );
+  } finally {
+    Deno.env.delete("OVERDUE_STAGE_TITLE");
+  }
+});
+
+Deno.test("getWorkflowConfig ignores empty optional names in the environment", () => {
+  Deno.env.set("OVERDUE_STAGE_TITLE", "");
+  try {
+    assertEquals(getWorkflowConfig({}).overdueStageTitle, undefined);
+  } finally {
+    Deno.env.delete("OVERDUE_STAGE_TITLE");
+  }
+});
+
+Deno.test("parseConfig rejects unknown workflow settings", () => {
+  assertThrows(
+    () =>
+      parseConfig({
+        offers: { default: { workflow: { homeworkTitle: "Hausaufgabe" } } },
+      }),
+    ConfigError,
+    '"offers.default.workflow.homeworkTitle" is not a workflow setting.',
+  );
+});
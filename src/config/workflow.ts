@@ -0,0 +1,72 @@
+import { BotConfig, WorkflowConfig } from "./types.ts";
+import { ConfigError } from "./ConfigError.ts";
+import { expectObject, expectString } from "./validation.ts";
+
+export const DEFAULT_OFFER_BOT_TAG = "HT-Bot Target";
+
+export const DEFAULT_WORKFLOW_CONFIG: WorkflowConfig = {
+  homeworkTaskTitle: "hausaufgabe",
+  homeworkExtensionTaskTitle: "Abgabe verschieben",
+  errorTaskTitle: "Fehler fixen",
+  overdueTaskTitle: "Überfällige Hausaufgabe klären",
+  assignMkTaskTitle: "MK bilden und zuordnen",
+  reviewTaskTitle: "Hausaufgabe reviewen",
+  homeworkSentStageTitle: "Hausaufgabe versendet",
+  homeworkReceivedStageTitle: "Hausaufgabe erhalten",
+  reviewedStageTitle: "Bewertet",
+  homeworkFieldName: "Hausaufgabe",
+  gitlabUsernameFieldName: "GitLab Account",
+  gitlabRepoFieldName: "GitLab Repo",
+  addressFieldName: "Anrede Override",
+  signatureFieldName: "Unterschrift Override",
+  shouldSendMailFieldName: "Bot-Mails",
+  localeFieldName: "Sprache",
+  errorTag: "Bot-Fehler aufgetreten",
+};
+
+const OPTIONAL_WORKFLOW_KEYS = [
+  "overdueStageTitle",
+  "correctionGuideFieldName",
+  "mergeRequestFieldName",
+];
+
+export function getOfferBotTag(config: BotConfig): string {
+  return config.offerBotTag ?? DEFAULT_OFFER_BOT_TAG;
+}
+
+// Single names are overridden, so an offer only has to list what differs from the "default" offer.
+export function getWorkflowConfig(
+  config: BotConfig,
+  offerId?: number,
+): WorkflowConfig {
+  return {
+    ...DEFAULT_WORKFLOW_CONFIG,
+    overdueStageTitle: Deno.env.get("OVERDUE_STAGE_TITLE") || undefined,
+    correctionGuideFieldName:
+      Deno.env.get("CORRECTION_GUIDE_PROFILE_FIELD_NAME") || undefined,
+    ...config.offers?.default?.workflow,
+    ...(offerId !== undefined
+      ? config.offers?.[String(offerId)]?.workflow
+      : {}),
+  };
+}
+
+export function parseWorkflowOverrides(
+  json: unknown,
+  path: string,
+): Partial<WorkflowConfig> {
+  const workflow = expectObject(json, path);
+  const allowedKeys = [
+    ...Object.keys(DEFAULT_WORKFLOW_CONFIG),
+    ...OPTIONAL_WORKFLOW_KEYS,
+  ];
+
+  return Object.fromEntries(
+    Object.entries(workflow).map(([key, value]) => {
+      if (!allowedKeys.includes(key)) {
+        throw new ConfigError(`"${path}.${key}" is not a workflow setting.`);
+      }
+      return [key, expectString(value, `${path}.${key}`)];
+    }),
+  );
+}
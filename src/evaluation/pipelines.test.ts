@@ -0,0 +1,60 @@
+import { assertEquals } from "https://deno.land/std@0.100.0/testing/asserts.ts";
+import { withMockedFetch } from "../http/http.test.ts";
+import Pipelines from "./pipelines.ts";
+
+const pipelines = () => new Pipelines("http://localhost:8090", "token");
+
+Deno.test("triggerPipeline starts a pipeline with the given variables", async () => {
+  await withMockedFetch(
+    (input, init) => {
+      assertEquals(
+        input,
+        "http://localhost:8090/projects/evaluation%2Fbackend/pipeline",
+      );
+      assertEquals(init?.method, "POST");
+      assertEquals(JSON.parse(String(init?.body)), {
+        ref: "main",
+        variables: [{ key: "SUBMISSION_SHA", value: "abc123" }],
+      });
+      return new Response(
+        JSON.stringify({ id: 7, status: "pending", web_url: "" }),
+      );
+    },
+    async () => {
+      const pipeline = await pipelines().triggerPipeline(
+        "evaluation/backend",
+        "main",
+        { SUBMISSION_SHA: "abc123" },
+      );
+      assertEquals(pipeline.id, 7);
+    },
+  );
+});
+
+Deno.test("getTestReport gets the test report of a pipeline", async () => {
+  await withMockedFetch(
+    (input) => {
+      assertEquals(
+        input,
+        "http://localhost:8090/projects/42/pipelines/7/test_report",
+      );
+      return new Response(JSON.stringify({ total_count: 3 }));
+    },
+    async () => {
+      const report = await pipelines().getTestReport("42", 7);
+      assertEquals(report.total_count, 3);
+    },
+  );
+});
+
+Deno.test("isFinished is true once the pipeline cannot change anymore", () => {
+  const pipeline = (status: "running" | "failed" | "canceled") => ({
+    id: 7,
+    status,
+    web_url: "",
+  });
+
+  assertEquals(pipelines().isFinished(pipeline("running")), false);
+  assertEquals(pipelines().isFinished(pipeline("failed")), true);
+  assertEquals(pipelines().isFinished(pipeline("canceled")), true);
+});
@@ -0,0 +1,58 @@
+import HttpClient from "../http/http.ts";
+import { Pipeline, TestReport, TriggerPipelineBody } from "./types.ts";
+
+const FINISHED_STATUSES = ["success", "failed", "canceled", "skipped"];
+
+// Runs the hidden tests of a homework in a private evaluation project. The base URL can point to a stand-in for local testing.
+export default class Pipelines extends HttpClient {
+  constructor(baseUrl: string, apiToken: string) {
+    super(baseUrl, apiToken);
+  }
+
+  async triggerPipeline(
+    project: string,
+    ref: string,
+    variables: Record<string, string>,
+  ): Promise<Pipeline> {
+    const pipeline = await this.makeRequest<Pipeline, TriggerPipelineBody>(
+      `/projects/${encodeURIComponent(project)}/pipeline`,
+      {
+        method: "POST",
+        body: {
+          ref,
+          variables: Object.entries(variables).map(([key, value]) => ({
+            key,
+            value,
+          })),
+        },
+      },
+    );
+
+    console.log(
+      `[Pipelines] Started pipeline ${pipeline.id} in project ${project}`,
+    );
+
+    return pipeline;
+  }
+
+  async getPipeline(project: string, pipelineId: number): Promise<Pipeline> {
+    return await this.makeRequest<Pipeline>(
+      `/projects/${encodeURIComponent(project)}/pipelines/${pipelineId}`,
+    );
+  }
+
+  async getTestReport(
+    project: string,
+    pipelineId: number,
+  ): Promise<TestReport> {
+    return await this.makeRequest<TestReport>(
+      `/projects/${
+        encodeURIComponent(project)
+      }/pipelines/${pipelineId}/test_report`,
+    );
+  }
+
+  isFinished(pipeline: Pipeline): boolean {
+    return FINISHED_STATUSES.includes(pipeline.status);
+  }
+}
@@ -0,0 +1,50 @@
+// deno-lint-ignore-file camelcase
+import { Pipeline, TestReport } from "./types.ts";
+
+// Answers the few pipeline API calls of the bot, so hidden tests can be tried without a real evaluation project.
+// Usage: bin/run_stand_in_pipeline_api [port], then set EVALUATION_API_URL=http://localhost:<port>
+const port = Number(Deno.args[0] ?? 8090);
+const testReport: TestReport = {
+  total_count: Number(Deno.env.get("STAND_IN_TOTAL_COUNT") ?? 10),
+  success_count: Number(Deno.env.get("STAND_IN_SUCCESS_COUNT") ?? 8),
+  failed_count: Number(Deno.env.get("STAND_IN_FAILED_COUNT") ?? 2),
+  skipped_count: 0,
+  error_count: 0,
+};
+
+let lastPipelineId = 0;
+
+function pipeline(id: number, status: Pipeline["status"]): Pipeline {
+  return { id, status, web_url: `http://localhost:${port}/pipelines/${id}` };
+}
+
+function json(body: unknown): Response {
+  return new Response(JSON.stringify(body), {
+    headers: { "Content-Type": "application/json" },
+  });
+}
+
+const server = Deno.serve({
+  port,
+  onListen: () => console.log(`[Stand-in] Pipeline API on port ${port}`),
+}, async (request) => {
+  const { pathname } = new URL(request.url);
+
+  if (
+    request.method === "POST" && /^\/projects\/[^/]+\/pipeline$/.test(pathname)
+  ) {
+    console.log(`[Stand-in] Pipeline triggered with`, await request.json());
+    return json(pipeline(++lastPipelineId, "pending"));
+  }
+
+  const match = pathname.match(
+    /^\/projects\/[^/]+\/pipelines\/(\d+)(\/test_report)?$/,
+  );
+  if (request.method === "GET" && match) {
+    return json(match[2] ? testReport : pipeline(Number(match[1]), "success"));
+  }
+
+  return new Response("Not Found", { status: 404 });
+});
+
+await server.finished;
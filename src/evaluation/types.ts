@@ -0,0 +1,41 @@
+// deno-lint-ignore-file camelcase
+export type PipelineStatus =
+  | "created"
+  | "waiting_for_resource"
+  | "preparing"
+  | "pending"
+  | "running"
+  | "success"
+  | "failed"
+  | "canceled"
+  | "skipped"
+  | "manual"
+  | "scheduled";
+
+export type Pipeline = {
+  id: number;
+  status: PipelineStatus;
+  web_url: string;
+};
+
+export type TestReport = {
+  total_count: number;
+  success_count: number;
+  failed_count: number;
+  skipped_count: number;
+  error_count: number;
+};
+
+export type TriggerPipelineBody = {
+  ref: string;
+  variables: { key: string; value: string }[];
+};
+
+// Stored until the pipeline has finished and its result is reported
+export type PendingEvaluation = {
+  candidateId: number;
+  project: string;
+  pipelineId: number;
+  pipelineUrl: string;
+  sha: string;
+};
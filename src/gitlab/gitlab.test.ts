@@ -6,11 +6,8 @@ import {
 } from "https://deno.land/std@0.100.0/testing/asserts.ts";
 import { Stub, stub } from "https://deno.land/x/mock@v0.9.5/mod.ts";
 import { withMockedFetch } from "../http/http.test.ts";
-import {
-  gitlabIssueTemplate,
-  GitlabIssueTemplateValues,
-} from "./../messages.ts";
-import Gitlab from "./gitlab.ts";
+import { getMessages, GitlabIssueTemplateValues } from "./../messages.ts";
+import Gitlab, { GITLAB_ACCESS_LEVEL_REPORTER } from "./gitlab.ts";
 import { Branch, GitlabProject, ImportStatus, Issue, User } from "./types.ts";
 import { GitlabError } from "./GitlabError.ts";
 
@@ -148,6 +145,71 @@ Deno.test("addMaintainerToProject makes correct api call", async () => {
   );
 });
 
+Deno.test("addMaintainerToProject adds reviewers as reporters", async () => {
+  await withMockedFetch(
+    (_, init) => {
+      assertEquals(
+        init?.body,
+        JSON.stringify({
+          id: "projectId",
+          user_id: "userId",
+          access_level: 20,
+          expires_at: "2000-02-01",
+        }),
+      );
+      return new Response();
+    },
+    async () => {
+      await gitlab().addMaintainerToProject(
+        "projectId",
+        "userId",
+        new Date("2000-02-01"),
+        GITLAB_ACCESS_LEVEL_REPORTER,
+      );
+    },
+  );
+});
+
+Deno.test("updateMemberExpiry makes correct api call", async () => {
+  await withMockedFetch(
+    (input, init) => {
+      assertEquals(
+        input,
+        `${Gitlab.API_BASE_URL}/projects/projectId/members/userId`,
+      );
+      assertEquals(init?.method, "PUT");
+      assertEquals(
+        init?.body,
+        JSON.stringify({ access_level: 30, expires_at: "2000-02-01" }),
+      );
+      return new Response();
+    },
+    async () => {
+      await gitlab().updateMemberExpiry(
+        "projectId",
+        "userId",
+        new Date("2000-02-01"),
+      );
+    },
+  );
+});
+
+Deno.test("removeMemberFromProject makes correct api call", async () => {
+  await withMockedFetch(
+    (input, init) => {
+      assertEquals(
+        input,
+        `${Gitlab.API_BASE_URL}/projects/projectId/members/userId`,
+      );
+      assertEquals(init?.method, "DELETE");
+      return new Response();
+    },
+    async () => {
+      await gitlab().removeMemberFromProject("projectId", "userId");
+    },
+  );
+});
+
 Deno.test("forkProject makes a correct api call", async () => {
   const mockProject = {
     id: "projectId",
@@ -191,6 +253,10 @@ Deno.test(
       { name: "master", protected: true, default: true },
     ]);
     stub(gitlabInstance, "deleteBranch");
+    const createTemplateBaseBranchStub: Stub<Gitlab> = stub(
+      gitlabInstance,
+      "createTemplateBaseBranch",
+    );
 
     const homeworkFork = await gitlabInstance.forkHomework(
       "projectId",
@@ -209,9 +275,33 @@ Deno.test(
       forkProjectStub.calls.length == 1,
       "forkProject has not been called exactly once",
     );
+    assertEquals(createTemplateBaseBranchStub.calls.length, 1);
   },
 );
 
+Deno.test("forkHomework returns the fork even if the template base branch fails", async () => {
+  const gitlabInstance = gitlab();
+  const mockProject = {
+    id: "projectId",
+    name: "repoName",
+    web_url: "",
+  };
+  stub(gitlabInstance, "forkProject", [mockProject]);
+  stub(gitlabInstance, "waitForForkFinish");
+  stub(gitlabInstance, "unprotectAllBranches");
+  stub(gitlabInstance, "getBranches", () => []);
+  stub(gitlabInstance, "createTemplateBaseBranch", () => {
+    throw new GitlabError("failed to create the branch");
+  });
+
+  const homeworkFork = await gitlabInstance.forkHomework(
+    "projectId",
+    "repoName",
+  );
+
+  assertEquals(homeworkFork, mockProject);
+});
+
 Deno.test("forkHomework forks a project, but unprotect fails", async () => {
   const gitlabInstance = gitlab();
   const mockProject = {
@@ -283,6 +373,26 @@ Deno.test("forkHomework forks a project but forkProject fails", async () => {
   );
 });
 
+Deno.test("deleteSolutionBranches deletes only the given branches", async () => {
+  const gitlabInstance = gitlab();
+  const project = { id: "projectId", name: "repoName", web_url: "" };
+  stub(gitlabInstance, "getBranches", () => [
+    { name: "master", protected: true, default: true },
+    { name: "solution", protected: false, default: false },
+    { name: "solution-typescript", protected: false, default: false },
+  ]);
+  const deleteBranchStub: Stub<Gitlab> = stub(gitlabInstance, "deleteBranch");
+
+  await gitlabInstance.deleteSolutionBranches(project, [
+    "solution-typescript",
+    "solution-java",
+  ]);
+
+  assertEquals(deleteBranchStub.calls.map((call) => call.args), [
+    [project, "solution-typescript"],
+  ]);
+});
+
 Deno.test("unprotectBranch makes correct api call", async () => {
   await withMockedFetch(
     (input, init) => {
@@ -346,6 +456,19 @@ Deno.test("deleteProject makes correct api call", async () => {
   );
 });
 
+Deno.test("archiveProject makes correct api call", async () => {
+  await withMockedFetch(
+    (input, init) => {
+      assertEquals(input, `${Gitlab.API_BASE_URL}/projects/projectId/archive`);
+      assertEquals(init?.method, "POST");
+      return new Response();
+    },
+    async () => {
+      await gitlab().archiveProject("projectId");
+    },
+  );
+});
+
 Deno.test("getUser makes correct api call", async () => {
   const user1: User = {
     id: 1234,
@@ -459,6 +582,7 @@ Deno.test("createHomeworkIssue makes correct api call", async () => {
   const issueTemplateValues: GitlabIssueTemplateValues = {
     title: "title",
     applicantName: "name",
+    questions: ["question"],
   };
 
   const issue: Issue = {
@@ -485,7 +609,9 @@ Deno.test("createHomeworkIssue makes correct api call", async () => {
         init?.body,
         JSON.stringify({
           title: "title",
-          description: gitlabIssueTemplate(issueTemplateValues),
+          description: getMessages("en").gitlabIssueTemplate(
+            issueTemplateValues,
+          ),
           assignee_ids: "gitlabUserId",
           due_date: "2020-01-01",
         }),
@@ -498,6 +624,7 @@ Deno.test("createHomeworkIssue makes correct api call", async () => {
         "gitlabUserId",
         new Date("2020-01-01"),
         issueTemplateValues,
+        "en",
       );
       assertEquals(response, issue);
     },
@@ -624,3 +751,565 @@ Deno.test("getProjectIssues can return no issues", async () => {
     },
   );
 });
+
+Deno.test("addProjectHook makes correct api call", async () => {
+  await withMockedFetch(
+    (input, init) => {
+      assertEquals(input, `${Gitlab.API_BASE_URL}/projects/projectId/hooks`);
+      assertEquals(init?.method, "POST");
+      assertEquals(
+        init?.body,
+        JSON.stringify({
+          url: "https://bot.example/webhooks/gitlab",
+          token: "secret",
+          issues_events: true,
+          push_events: false,
+        }),
+      );
+      return new Response(JSON.stringify({}));
+    },
+    async () => {
+      await gitlab().addProjectHook("projectId", {
+        url: "https://bot.example/webhooks/gitlab",
+        token: "secret",
+      });
+    },
+  );
+});
+
+Deno.test("registerHomeworkGroupHook adds a missing group hook", async () => {
+  const requests: { input: string; method?: string }[] = [];
+  await withMockedFetch(
+    (input, init) => {
+      requests.push({ input: input.toString(), method: init?.method });
+      return new Response(JSON.stringify(init?.method === "GET" ? [] : {}));
+    },
+    async () => {
+      await gitlab().registerHomeworkGroupHook({
+        url: "https://bot.example/webhooks/gitlab",
+        token: "secret",
+      });
+    },
+  );
+
+  assertEquals(requests, [
+    {
+      input: `${Gitlab.API_BASE_URL}/groups/homeworkNamespace/hooks`,
+      method: "GET",
+    },
+    {
+      input: `${Gitlab.API_BASE_URL}/groups/homeworkNamespace/hooks`,
+      method: "POST",
+    },
+  ]);
+});
+
+Deno.test("registerHomeworkGroupHook keeps an existing group hook", async () => {
+  let requestCount = 0;
+  await withMockedFetch(
+    () => {
+      requestCount += 1;
+      return new Response(
+        JSON.stringify([
+          {
+            id: 1,
+            url: "https://bot.example/webhooks/gitlab",
+            issues_events: true,
+          },
+        ]),
+      );
+    },
+    async () => {
+      await gitlab().registerHomeworkGroupHook({
+        url: "https://bot.example/webhooks/gitlab",
+        token: "secret",
+      });
+    },
+  );
+
+  assertEquals(requestCount, 1);
+});
+
+Deno.test("updateIssueDueDate makes correct api call", async () => {
+  await withMockedFetch(
+    (input, init) => {
+      assertEquals(input, `${Gitlab.API_BASE_URL}/projects/projectId/issues/1`);
+      assertEquals(init?.method, "PUT");
+      assertEquals(init?.body, JSON.stringify({ due_date: "2020-01-08" }));
+      return new Response(JSON.stringify({ iid: 1, due_date: "2020-01-08" }));
+    },
+    async () => {
+      const issue = await gitlab().updateIssueDueDate(
+        "projectId",
+        1,
+        new Date("2020-01-08"),
+      );
+      assertEquals(issue.due_date, "2020-01-08");
+    },
+  );
+});
+
+Deno.test("getSubmissionStats compares the fork with its template", async () => {
+  const requests: string[] = [];
+  await withMockedFetch(
+    (input) => {
+      const url = String(input);
+      requests.push(url);
+
+      if (url.endsWith("/projects/forkId")) {
+        return new Response(JSON.stringify({
+          id: "forkId",
+          name: "homework-fork",
+          web_url: "",
+          default_branch: "main",
+          forked_from_project: { id: 7, default_branch: "master" },
+        }));
+      }
+      if (url.includes("/repository/compare")) {
+        return new Response(JSON.stringify({
+          commits: [
+            {
+              id: "b",
+              title: "Add tests",
+              committed_date: "2021-12-20T21:00:00Z",
+            },
+            {
+              id: "a",
+              title: "Add solution",
+              committed_date: "2021-12-14T09:03:00Z",
+            },
+          ],
+          diffs: [
+            { old_path: "src/index.ts", new_path: "src/index.ts" },
+            { old_path: "test.ts", new_path: "test.ts" },
+          ],
+        }));
+      }
+      return new Response(JSON.stringify({ TypeScript: 80.5, CSS: 19.5 }));
+    },
+    async () => {
+      const stats = await gitlab().getSubmissionStats("forkId");
+
+      assertEquals(stats, {
+        commitCount: 2,
+        firstCommitAt: new Date("2021-12-14T09:03:00Z"),
+        lastCommitAt: new Date("2021-12-20T21:00:00Z"),
+        changedFiles: 2,
+        languages: { TypeScript: 80.5, CSS: 19.5 },
+      });
+    },
+  );
+
+  assertEquals(
+    requests[1],
+    `${Gitlab.API_BASE_URL}/projects/forkId/repository/compare?from=master&to=main&from_project_id=7`,
+  );
+  assertEquals(requests[2], `${Gitlab.API_BASE_URL}/projects/forkId/languages`);
+});
+
+Deno.test("getSubmissionStats needs a fork", async () => {
+  await withMockedFetch(
+    () =>
+      new Response(JSON.stringify({
+        id: "forkId",
+        name: "homework-fork",
+        web_url: "https://gitlab.com/homework/fork",
+        default_branch: "main",
+      })),
+    async () => {
+      await assertThrowsAsync(
+        () => gitlab().getSubmissionStats("forkId"),
+        GitlabError,
+        "https://gitlab.com/homework/fork ist kein Fork einer Vorlage.",
+      );
+    },
+  );
+});
+
+Deno.test("getIssueNotes gets the notes of an issue in order", async () => {
+  await withMockedFetch(
+    (input, init) => {
+      assertEquals(
+        input,
+        `${Gitlab.API_BASE_URL}/projects/forkId/issues/1/notes?sort=asc&order_by=created_at&per_page=100&page=1`,
+      );
+      assertEquals(init?.method, "GET");
+      return new Response(JSON.stringify([]));
+    },
+    async () => {
+      assertEquals(await gitlab().getIssueNotes("forkId", 1), []);
+    },
+  );
+});
+
+Deno.test("getIssueNotes follows all pages", async () => {
+  await withMockedFetch(
+    (input) => {
+      const page = new URL(String(input)).searchParams.get("page");
+      return new Response(
+        JSON.stringify([{ id: Number(page), body: `Note ${page}` }]),
+        { headers: { "x-next-page": page === "1" ? "2" : "" } },
+      );
+    },
+    async () => {
+      const notes = await gitlab().getIssueNotes("forkId", 1);
+
+      assertEquals(notes.map((note) => note.body), ["Note 1", "Note 2"]);
+    },
+  );
+});
+
+Deno.test("getHomeworkForksOfTemplate only returns forks of the template", async () => {
+  await withMockedFetch(
+    (input) => {
+      assertEquals(
+        input,
+        `${Gitlab.API_BASE_URL}/groups/homeworkNamespace/projects?search=homework-&per_page=100&page=1`,
+      );
+      return new Response(JSON.stringify([
+        {
+          id: "a",
+          name: "homework-alice-1",
+          web_url: "",
+          default_branch: "main",
+          forked_from_project: { id: 7, default_branch: "main" },
+        },
+        {
+          id: "b",
+          name: "homework-bob-2",
+          web_url: "",
+          default_branch: "main",
+          forked_from_project: { id: 8, default_branch: "main" },
+        },
+        { id: "c", name: "homework-copy", web_url: "", default_branch: "main" },
+      ]));
+    },
+    async () => {
+      const forks = await gitlab().getHomeworkForksOfTemplate(7, "homework-");
+
+      assertEquals(forks.map((fork) => fork.id), ["a"]);
+    },
+  );
+});
+
+Deno.test("searchAllProjectsByName follows all pages", async () => {
+  await withMockedFetch(
+    (input) => {
+      const page = new URL(String(input)).searchParams.get("page");
+      return new Response(
+        JSON.stringify([{ id: `project-${page}`, name: "", web_url: "" }]),
+        { headers: { "x-next-page": page === "1" ? "2" : "" } },
+      );
+    },
+    async () => {
+      const projects = await gitlab().searchAllProjectsByName(
+        "homework-",
+        "homeworkNamespace",
+      );
+
+      assertEquals(projects.map((project) => project.id), [
+        "project-1",
+        "project-2",
+      ]);
+    },
+  );
+});
+
+Deno.test("compareRefs compares branches of the same project", async () => {
+  await withMockedFetch(
+    (input) => {
+      assertEquals(
+        input,
+        `${Gitlab.API_BASE_URL}/projects/7/repository/compare?from=main&to=solution`,
+      );
+      return new Response(JSON.stringify({ commits: [], diffs: [] }));
+    },
+    async () => {
+      assertEquals(await gitlab().compareRefs(7, "main", "solution"), {
+        commits: [],
+        diffs: [],
+      });
+    },
+  );
+});
+
+Deno.test("getCommitDiff follows all pages", async () => {
+  await withMockedFetch(
+    (input) => {
+      const url = new URL(String(input));
+      assertEquals(
+        url.pathname,
+        "/api/v4/projects/forkId/repository/commits/abc/diff",
+      );
+      const page = url.searchParams.get("page");
+      return new Response(
+        JSON.stringify([{
+          old_path: `file-${page}.ts`,
+          new_path: `file-${page}.ts`,
+          new_file: true,
+          renamed_file: false,
+          deleted_file: false,
+        }]),
+        { headers: { "x-next-page": page === "1" ? "2" : "" } },
+      );
+    },
+    async () => {
+      const diffs = await gitlab().getCommitDiff("forkId", "abc");
+
+      assertEquals(diffs.map((diff) => diff.new_path), [
+        "file-1.ts",
+        "file-2.ts",
+      ]);
+    },
+  );
+});
+
+Deno.test("replayCommits recreates the commits by another author", async () => {
+  const commitBodies: unknown[] = [];
+  await withMockedFetch(
+    (input, init) => {
+      const url = String(input);
+      if (url.includes("/commits/b/diff")) {
+        return new Response(JSON.stringify([
+          {
+            old_path: "old.ts",
+            new_path: "new.ts",
+            new_file: false,
+            renamed_file: true,
+            deleted_file: false,
+          },
+          {
+            old_path: "unused.ts",
+            new_path: "unused.ts",
+            new_file: false,
+            renamed_file: false,
+            deleted_file: true,
+          },
+        ]));
+      }
+      if (url.includes("/commits/a/diff")) {
+        return new Response(JSON.stringify([{
+          old_path: "index.ts",
+          new_path: "index.ts",
+          new_file: true,
+          renamed_file: false,
+          deleted_file: false,
+        }]));
+      }
+      if (url.includes("/repository/files/")) {
+        return new Response(
+          JSON.stringify({ content: "Y29kZQ==", encoding: "base64" }),
+        );
+      }
+
+      assertEquals(
+        url,
+        `${Gitlab.API_BASE_URL}/projects/copyId/repository/commits`,
+      );
+      assertEquals(init?.method, "POST");
+      commitBodies.push(JSON.parse(String(init?.body)));
+      return new Response(JSON.stringify({}));
+    },
+    async () => {
+      await gitlab().replayCommits(
+        {
+          id: "forkId",
+          name: "homework-alice-1",
+          web_url: "",
+          default_branch: "main",
+          http_url_to_repo: "",
+        },
+        [
+          {
+            id: "b",
+            title: "Refactor",
+            committed_date: "2021-12-20T21:00:00Z",
+          },
+          {
+            id: "a",
+            title: "Add index",
+            committed_date: "2021-12-14T09:03:00Z",
+          },
+        ],
+        {
+          id: "copyId",
+          name: "review-kandidat-0a1b2c",
+          web_url: "",
+          default_branch: "master",
+          http_url_to_repo: "",
+        },
+        { name: "Kandidat-0A1B2C", email: "kandidat-0a1b2c@review.invalid" },
+      );
+    },
+  );
+
+  const author = {
+    branch: "master",
+    author_name: "Kandidat-0A1B2C",
+    author_email: "kandidat-0a1b2c@review.invalid",
+  };
+  assertEquals(commitBodies, [
+    {
+      ...author,
+      commit_message: "Add index",
+      actions: [{
+        action: "create",
+        file_path: "index.ts",
+        content: "Y29kZQ==",
+        encoding: "base64",
+      }],
+    },
+    {
+      ...author,
+      commit_message: "Refactor",
+      actions: [
+        {
+          action: "move",
+          file_path: "new.ts",
+          previous_path: "old.ts",
+          content: "Y29kZQ==",
+          encoding: "base64",
+        },
+        { action: "delete", file_path: "unused.ts" },
+      ],
+    },
+  ]);
+});
+
+Deno.test("forkTemplateForReview needs a review namespace", async () => {
+  await assertThrowsAsync(
+    () => gitlab().forkTemplateForReview(7, "review-kandidat-0a1b2c", []),
+    GitlabError,
+    "Es ist kein Namespace für Review-Kopien konfiguriert.",
+  );
+});
+
+Deno.test("createTemplateBaseBranch creates a protected branch from the default branch", async () => {
+  const requests: { url: string; method?: string; body?: unknown }[] = [];
+  await withMockedFetch(
+    (input, init) => {
+      requests.push({
+        url: String(input),
+        method: init?.method,
+        body: init?.body ? JSON.parse(String(init.body)) : undefined,
+      });
+      if (String(input).endsWith("/projects/forkId")) {
+        return new Response(
+          JSON.stringify({ id: "forkId", default_branch: "main" }),
+        );
+      }
+      return new Response(JSON.stringify({}));
+    },
+    async () => {
+      await gitlab().createTemplateBaseBranch({
+        id: "forkId",
+        name: "homework-alice-1",
+        web_url: "",
+      });
+    },
+  );
+
+  assertEquals(requests.slice(1), [
+    {
+      url: `${Gitlab.API_BASE_URL}/projects/forkId/repository/branches`,
+      method: "POST",
+      body: { branch: "template-base", ref: "main" },
+    },
+    {
+      url: `${Gitlab.API_BASE_URL}/projects/forkId/protected_branches`,
+      method: "POST",
+      body: {
+        name: "template-base",
+        push_access_level: 0,
+        merge_access_level: 0,
+      },
+    },
+  ]);
+});
+
+Deno.test("createMergeRequest opens a merge request in the project", async () => {
+  await withMockedFetch(
+    (input, init) => {
+      assertEquals(
+        input,
+        `${Gitlab.API_BASE_URL}/projects/forkId/merge_requests`,
+      );
+      assertEquals(init?.method, "POST");
+      assertEquals(JSON.parse(String(init?.body)), {
+        source_branch: "main",
+        target_branch: "template-base",
+        title: "Review",
+        description: "",
+      });
+      return new Response(
+        JSON.stringify({ iid: 1, title: "Review", web_url: "mrUrl" }),
+      );
+    },
+    async () => {
+      const mergeRequest = await gitlab().createMergeRequest("forkId", {
+        source_branch: "main",
+        target_branch: "template-base",
+        title: "Review",
+        description: "",
+      });
+
+      assertEquals(mergeRequest.web_url, "mrUrl");
+    },
+  );
+});
+
+Deno.test("createProtectedTag tags the commit and protects the tag", async () => {
+  const requests: { url: string; body?: unknown }[] = [];
+  await withMockedFetch(
+    (input, init) => {
+      requests.push({
+        url: String(input),
+        body: JSON.parse(String(init?.body)),
+      });
+      return new Response(
+        JSON.stringify({ name: "submission", commit: { id: "abc" } }),
+      );
+    },
+    async () => {
+      const tag = await gitlab().createProtectedTag(
+        "forkId",
+        "submission",
+        "abc",
+      );
+
+      assertEquals(tag.commit.id, "abc");
+    },
+  );
+
+  assertEquals(requests, [
+    {
+      url: `${Gitlab.API_BASE_URL}/projects/forkId/repository/tags`,
+      body: { tag_name: "submission", ref: "abc" },
+    },
+    {
+      url: `${Gitlab.API_BASE_URL}/projects/forkId/protected_tags`,
+      body: { name: "submission", create_access_level: 0 },
+    },
+  ]);
+});
+
+Deno.test("updateMemberAccessLevel only changes the access level", async () => {
+  await withMockedFetch(
+    (input, init) => {
+      assertEquals(
+        input,
+        `${Gitlab.API_BASE_URL}/projects/projectId/members/userId`,
+      );
+      assertEquals(init?.method, "PUT");
+      assertEquals(init?.body, JSON.stringify({ access_level: 20 }));
+      return new Response();
+    },
+    async () => {
+      await gitlab().updateMemberAccessLevel(
+        "projectId",
+        "userId",
+        GITLAB_ACCESS_LEVEL_REPORTER,
+      );
+    },
+  );
+});
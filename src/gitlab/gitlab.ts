@@ -1,54 +1,113 @@
 // deno-lint-ignore-file camelcase
-import { gitlabIssueTemplate, GitlabIssueTemplateValues } from "../messages.ts";
 import {
+  DEFAULT_LOCALE,
+  getMessages,
+  GitlabIssueTemplateValues,
+  Locale,
+} from "../messages.ts";
+import {
+  AddHookBody,
   AddMaintainerToProjectBody,
   Branch,
+  BranchDetails,
+  Commit,
+  CommitAction,
+  CommitAuthor,
+  CommitDiff,
+  Comparison,
+  CreateBranchBody,
+  CreateCommitBody,
   CreateHomeworkIssueBody,
+  CreateIssueBody,
+  CreateMergeRequestBody,
+  CreateTagBody,
   ForkProjectBody,
   GitlabProject as GitlabProject,
   ImportStatus,
   Issue,
+  IssueNote,
+  MergeRequest,
+  ProjectDetails,
+  ProjectHook,
+  ProtectBranchBody,
+  ProtectTagBody,
+  RepositoryFile,
+  SubmissionStats,
+  Tag,
+  UpdateIssueBody,
+  UpdateMemberAccessLevelBody,
+  UpdateMemberBody,
   User,
+  WebhookConfig,
 } from "./types.ts";
 import HttpClient from "../http/http.ts";
 import { dateToISO } from "../tools.ts";
 import { GitlabError } from "./GitlabError.ts";
 import { EmojiErrorCodes } from "../errormojis.ts";
 
-const GITLAB_ACCESS_LEVEL_DEVELOPER = 30;
+export const GITLAB_ACCESS_LEVEL_REPORTER = 20;
+export const GITLAB_ACCESS_LEVEL_DEVELOPER = 30;
 const SOLUTION_BRANCH_NAME = "solution";
+// Merge requests against this branch show everything the candidate changed
+export const TEMPLATE_BASE_BRANCH_NAME = "template-base";
+// Marks the commit the candidate submitted
+export const SUBMISSION_TAG_NAME = "submission";
+const GITLAB_ACCESS_LEVEL_NO_ACCESS = 0;
 
 export default class Gitlab extends HttpClient {
   public static API_BASE_URL = "https://gitlab.com/api/v4";
 
   private templateNamespace: string;
   private homeworkNamespace: string;
+  private projectWebhook?: WebhookConfig;
+  private reviewNamespace?: string;
 
   constructor(
     apiToken: string,
     templateNamespace: string,
     homeworkNamespace: string,
+    projectWebhook?: WebhookConfig,
+    reviewNamespace?: string,
   ) {
     super(Gitlab.API_BASE_URL, apiToken);
 
     this.templateNamespace = templateNamespace;
     this.homeworkNamespace = homeworkNamespace;
+    this.projectWebhook = projectWebhook;
+    this.reviewNamespace = reviewNamespace;
+  }
+
+  hasReviewNamespace(): boolean {
+    return this.reviewNamespace != undefined;
   }
 
   async searchAllProjectsByName(
     name: string,
     namespaceID: string,
   ): Promise<GitlabProject[]> {
-    const queryParams = {
-      search: name,
-    };
-    const projects = await this.makeRequest<GitlabProject[]>(
+    return await this.getAllPages<GitlabProject>(
       `/groups/${namespaceID}/projects`,
-      {
-        queryParams,
-      },
+      { search: name },
     );
-    return projects;
+  }
+
+  // GitLab returns at most 100 items at once and names the next page in the x-next-page header
+  private async getAllPages<T>(
+    slug: string,
+    queryParams: Record<string, string> = {},
+  ): Promise<T[]> {
+    const items: T[] = [];
+    let page: string | null = "1";
+    while (page) {
+      // Typed explicitly, as the loop condition depends on the response
+      const response: { body: T[]; headers: Headers } = await this
+        .makeRequestWithHeaders<T[]>(slug, {
+          queryParams: { ...queryParams, per_page: "100", page },
+        });
+      items.push(...response.body);
+      page = response.headers.get("x-next-page");
+    }
+    return items;
   }
 
   async getProject(name: string, namespaceID: string): Promise<GitlabProject> {
@@ -74,6 +133,67 @@ export default class Gitlab extends HttpClient {
     return project;
   }
 
+  async getProjectDetails(projectId: string): Promise<ProjectDetails> {
+    return await this.makeRequest<ProjectDetails>(`/projects/${projectId}`);
+  }
+
+  async getProjectLanguages(
+    projectId: string,
+  ): Promise<Record<string, number>> {
+    return await this.makeRequest<Record<string, number>>(
+      `/projects/${projectId}/languages`,
+    );
+  }
+
+  // Only contains what was committed to the fork after it was forked from the template
+  async compareForkWithTemplate(fork: ProjectDetails): Promise<Comparison> {
+    const template = fork.forked_from_project;
+    if (!template) {
+      throw new GitlabError(
+        `${EmojiErrorCodes.PROJECT_NOT_FOUND} Das Repository ${fork.web_url} ist kein Fork einer Vorlage.`,
+      );
+    }
+
+    return await this.compareRefs(
+      fork.id,
+      template.default_branch,
+      fork.default_branch,
+      String(template.id),
+    );
+  }
+
+  async compareRefs(
+    projectId: string | number,
+    from: string,
+    to: string,
+    fromProjectId?: string,
+  ): Promise<Comparison> {
+    const queryParams: Record<string, string> = { from, to };
+    if (fromProjectId) {
+      queryParams.from_project_id = fromProjectId;
+    }
+    return await this.makeRequest<Comparison>(
+      `/projects/${projectId}/repository/compare`,
+      { queryParams },
+    );
+  }
+
+  async getSubmissionStats(projectId: string): Promise<SubmissionStats> {
+    const fork = await this.getProjectDetails(projectId);
+    const { commits, diffs } = await this.compareForkWithTemplate(fork);
+    const commitDates = commits
+      .map((commit) => new Date(commit.committed_date))
+      .sort((a, b) => a.getTime() - b.getTime());
+
+    return {
+      commitCount: commits.length,
+      firstCommitAt: commitDates[0],
+      lastCommitAt: commitDates[commitDates.length - 1],
+      changedFiles: diffs.length,
+      languages: await this.getProjectLanguages(projectId),
+    };
+  }
+
   async getTemplateProject(name: string) {
     return await this.getProject(name, this.templateNamespace);
   }
@@ -86,12 +206,24 @@ export default class Gitlab extends HttpClient {
     return await this.searchAllProjectsByName(name, this.homeworkNamespace);
   }
 
+  // The project list contains the full project, including where it was forked from
+  async getHomeworkForksOfTemplate(
+    templateId: number,
+    search: string,
+  ): Promise<ProjectDetails[]> {
+    const projects = await this.getHomeworkProjects(search) as ProjectDetails[];
+    return projects.filter((project) =>
+      project.forked_from_project?.id === templateId
+    );
+  }
+
   async forkProject(
     homeworkProjectId: string,
     repoName: string,
+    namespaceId = this.homeworkNamespace,
   ): Promise<GitlabProject> {
     const body = {
-      namespace_id: this.homeworkNamespace,
+      namespace_id: namespaceId,
       name: repoName,
       path: repoName,
     };
@@ -123,12 +255,26 @@ export default class Gitlab extends HttpClient {
   async forkHomework(
     homeworkProjectId: string,
     repoName: string,
+    solutionBranches: string[] = [SOLUTION_BRANCH_NAME],
   ): Promise<GitlabProject> {
     const homeworkFork = await this.forkProject(homeworkProjectId, repoName);
 
     await this.waitForForkFinish(homeworkFork.id);
-    await this.deleteSolutionBranch(homeworkFork);
+    await this.deleteSolutionBranches(homeworkFork, solutionBranches);
     await this.unprotectAllBranches(homeworkFork);
+    try {
+      await this.createTemplateBaseBranch(homeworkFork);
+    } catch (error) {
+      // Without the base branch the review merge request is left out, the homework is sent anyway
+      console.warn(
+        `[GitLab] Could not create the template base branch in project ${homeworkFork.id}`,
+        error,
+      );
+    }
+
+    if (this.projectWebhook) {
+      await this.addProjectHook(homeworkFork.id, this.projectWebhook);
+    }
 
     console.log(
       `[GitLab] Forked Git Repo with id ${homeworkProjectId} as \"${repoName}\"`,
@@ -137,12 +283,136 @@ export default class Gitlab extends HttpClient {
     return homeworkFork;
   }
 
+  // The copy starts from the template like the candidate's fork did, without hooks since nobody works on it
+  async forkTemplateForReview(
+    templateId: number,
+    repoName: string,
+    solutionBranches: string[],
+  ): Promise<ProjectDetails> {
+    if (!this.reviewNamespace) {
+      throw new GitlabError(
+        `${EmojiErrorCodes.PROJECT_NOT_FOUND} Es ist kein Namespace für Review-Kopien konfiguriert.`,
+      );
+    }
+
+    const copy = await this.forkProject(
+      String(templateId),
+      repoName,
+      this.reviewNamespace,
+    );
+    await this.waitForForkFinish(copy.id);
+    await this.deleteSolutionBranches(copy, solutionBranches);
+    try {
+      await this.createTemplateBaseBranch(copy);
+    } catch (error) {
+      console.warn(
+        `[GitLab] Could not create the template base branch in project ${copy.id}`,
+        error,
+      );
+    }
+
+    console.log(
+      `[GitLab] Forked Git Repo with id ${templateId} for review as \"${repoName}\"`,
+    );
+
+    return await this.getProjectDetails(copy.id);
+  }
+
+  async getCommitDiff(
+    projectId: string,
+    sha: string,
+  ): Promise<CommitDiff[]> {
+    return await this.getAllPages<CommitDiff>(
+      `/projects/${projectId}/repository/commits/${sha}/diff`,
+    );
+  }
+
+  async getFile(
+    projectId: string,
+    path: string,
+    ref: string,
+  ): Promise<RepositoryFile> {
+    return await this.makeRequest<RepositoryFile>(
+      `/projects/${projectId}/repository/files/${encodeURIComponent(path)}`,
+      { queryParams: { ref } },
+    );
+  }
+
+  async createCommit(
+    projectId: string,
+    body: CreateCommitBody,
+  ): Promise<Commit> {
+    return await this.makeRequest<Commit, CreateCommitBody>(
+      `/projects/${projectId}/repository/commits`,
+      { method: "POST", body },
+    );
+  }
+
+  // Recreates the commits with the files as they were after each commit, but by another author
+  async replayCommits(
+    source: ProjectDetails,
+    commits: Commit[],
+    target: ProjectDetails,
+    author: CommitAuthor,
+  ) {
+    const oldestFirst = [...commits].sort((a, b) =>
+      new Date(a.committed_date).getTime() -
+      new Date(b.committed_date).getTime()
+    );
+
+    for (const commit of oldestFirst) {
+      const actions: CommitAction[] = [];
+      for (const diff of await this.getCommitDiff(source.id, commit.id)) {
+        if (diff.deleted_file) {
+          actions.push({ action: "delete", file_path: diff.old_path });
+          continue;
+        }
+
+        const file = await this.getFile(source.id, diff.new_path, commit.id);
+        actions.push({
+          action: diff.new_file
+            ? "create"
+            : diff.renamed_file
+            ? "move"
+            : "update",
+          file_path: diff.new_path,
+          previous_path: diff.renamed_file ? diff.old_path : undefined,
+          content: file.content,
+          encoding: file.encoding,
+        });
+      }
+
+      // The API cannot create commits without changes, e.g. empty merge commits
+      if (actions.length === 0) {
+        continue;
+      }
+      await this.createCommit(target.id, {
+        branch: target.default_branch,
+        commit_message: commit.title,
+        author_name: author.name,
+        author_email: author.email,
+        actions,
+      });
+    }
+  }
+
   async getBranches(project: GitlabProject): Promise<Branch[]> {
     return await this.makeRequest(
       `/projects/${project.id}/repository/branches`,
     );
   }
 
+  async getBranch(
+    projectId: string,
+    branchName: string,
+  ): Promise<BranchDetails> {
+    return await this.makeRequest<BranchDetails>(
+      `/projects/${projectId}/repository/branches/${
+        encodeURIComponent(branchName)
+      }`,
+    );
+  }
+
   async deleteBranch(project: GitlabProject, branchName: string) {
     const path = `/projects/${project.id}/repository/branches/${branchName}`;
     await this.makeRequest(path, { method: "DELETE" });
@@ -162,13 +432,80 @@ export default class Gitlab extends HttpClient {
     console.log(`[GitLab] Unprotected branch \"${branch.name}\"`);
   }
 
-  async deleteSolutionBranch(project: GitlabProject) {
-    const branches = await this.getBranches(project);
-    const hasSolutionBranch = branches.some(
-      (branch) => branch.name === SOLUTION_BRANCH_NAME,
+  // Protected without push access, so the candidate cannot move the base of the review
+  async createTemplateBaseBranch(project: GitlabProject) {
+    const { default_branch } = await this.getProjectDetails(project.id);
+    await this.makeRequest<BranchDetails, CreateBranchBody>(
+      `/projects/${project.id}/repository/branches`,
+      {
+        method: "POST",
+        body: { branch: TEMPLATE_BASE_BRANCH_NAME, ref: default_branch },
+      },
     );
-    if (hasSolutionBranch) {
-      await this.deleteBranch(project, SOLUTION_BRANCH_NAME);
+    await this.makeRequest<never, ProtectBranchBody>(
+      `/projects/${project.id}/protected_branches`,
+      {
+        method: "POST",
+        body: {
+          name: TEMPLATE_BASE_BRANCH_NAME,
+          push_access_level: GITLAB_ACCESS_LEVEL_NO_ACCESS,
+          merge_access_level: GITLAB_ACCESS_LEVEL_NO_ACCESS,
+        },
+      },
+    );
+
+    console.log(
+      `[GitLab] Created protected branch \"${TEMPLATE_BASE_BRANCH_NAME}\" from \"${default_branch}\"`,
+    );
+  }
+
+  // Nobody may create a tag of the same name, so the tag cannot be moved after it was deleted
+  async createProtectedTag(
+    projectId: string,
+    tagName: string,
+    ref: string,
+  ): Promise<Tag> {
+    const tag = await this.makeRequest<Tag, CreateTagBody>(
+      `/projects/${projectId}/repository/tags`,
+      { method: "POST", body: { tag_name: tagName, ref } },
+    );
+    await this.makeRequest<never, ProtectTagBody>(
+      `/projects/${projectId}/protected_tags`,
+      {
+        method: "POST",
+        body: {
+          name: tagName,
+          create_access_level: GITLAB_ACCESS_LEVEL_NO_ACCESS,
+        },
+      },
+    );
+
+    console.log(
+      `[GitLab] Created protected tag \"${tagName}\" at ${tag.commit.id}`,
+    );
+
+    return tag;
+  }
+
+  async createMergeRequest(
+    projectId: string,
+    body: CreateMergeRequestBody,
+  ): Promise<MergeRequest> {
+    return await this.makeRequest<MergeRequest, CreateMergeRequestBody>(
+      `/projects/${projectId}/merge_requests`,
+      { method: "POST", body },
+    );
+  }
+
+  async deleteSolutionBranches(
+    project: GitlabProject,
+    solutionBranches: string[],
+  ) {
+    const branches = await this.getBranches(project);
+    for (const branch of branches) {
+      if (solutionBranches.includes(branch.name)) {
+        await this.deleteBranch(project, branch.name);
+      }
     }
   }
 
@@ -194,15 +531,67 @@ export default class Gitlab extends HttpClient {
     console.log(`[GitLab] Deleted project with id ${id}`);
   }
 
+  async addProjectHook(projectId: string, webhook: WebhookConfig) {
+    await this.makeRequest<ProjectHook, AddHookBody>(
+      `/projects/${projectId}/hooks`,
+      {
+        method: "POST",
+        body: {
+          url: webhook.url,
+          token: webhook.token,
+          issues_events: true,
+          push_events: false,
+        },
+      },
+    );
+
+    console.log(`[GitLab] Added issue webhook to project with id ${projectId}`);
+  }
+
+  async registerHomeworkGroupHook(webhook: WebhookConfig) {
+    const hooks = await this.makeRequest<ProjectHook[]>(
+      `/groups/${this.homeworkNamespace}/hooks`,
+    );
+    if (hooks.some((hook) => hook.url === webhook.url && hook.issues_events)) {
+      return;
+    }
+
+    await this.makeRequest<ProjectHook, AddHookBody>(
+      `/groups/${this.homeworkNamespace}/hooks`,
+      {
+        method: "POST",
+        body: {
+          url: webhook.url,
+          token: webhook.token,
+          issues_events: true,
+          push_events: false,
+        },
+      },
+    );
+
+    console.log(
+      `[GitLab] Added issue webhook to group ${this.homeworkNamespace}`,
+    );
+  }
+
+  async archiveProject(id: string) {
+    await this.makeRequest(`/projects/${id}/archive`, {
+      method: "POST",
+    });
+
+    console.log(`[GitLab] Archived project with id ${id}`);
+  }
+
   async addMaintainerToProject(
     projectId: string,
     userId: string,
     expirationDate: Date,
+    accessLevel = GITLAB_ACCESS_LEVEL_DEVELOPER,
   ): Promise<void> {
     const body = {
       id: projectId,
       user_id: userId,
-      access_level: GITLAB_ACCESS_LEVEL_DEVELOPER,
+      access_level: accessLevel,
       expires_at: dateToISO(expirationDate),
     };
     await this.makeRequest<never, AddMaintainerToProjectBody>(
@@ -214,7 +603,57 @@ export default class Gitlab extends HttpClient {
     );
 
     console.log(
-      `[GitLab] Added user with id ${userId} to Repo with id ${projectId}`,
+      `[GitLab] Added user with id ${userId} to Repo with id ${projectId} with access level ${accessLevel}`,
+    );
+  }
+
+  async updateMemberExpiry(
+    projectId: string,
+    userId: string,
+    expirationDate: Date,
+    accessLevel = GITLAB_ACCESS_LEVEL_DEVELOPER,
+  ): Promise<void> {
+    await this.makeRequest<never, UpdateMemberBody>(
+      `/projects/${projectId}/members/${userId}`,
+      {
+        method: "PUT",
+        body: {
+          access_level: accessLevel,
+          expires_at: dateToISO(expirationDate),
+        },
+      },
+    );
+
+    console.log(
+      `[GitLab] Extended access of user with id ${userId} to Repo with id ${projectId}`,
+    );
+  }
+
+  async updateMemberAccessLevel(
+    projectId: string,
+    userId: string,
+    accessLevel: number,
+  ): Promise<void> {
+    await this.makeRequest<never, UpdateMemberAccessLevelBody>(
+      `/projects/${projectId}/members/${userId}`,
+      { method: "PUT", body: { access_level: accessLevel } },
+    );
+
+    console.log(
+      `[GitLab] Changed access level of user with id ${userId} to Repo with id ${projectId} to ${accessLevel}`,
+    );
+  }
+
+  async removeMemberFromProject(
+    projectId: string,
+    userId: string,
+  ): Promise<void> {
+    await this.makeRequest(`/projects/${projectId}/members/${userId}`, {
+      method: "DELETE",
+    });
+
+    console.log(
+      `[GitLab] Removed user with id ${userId} from Repo with id ${projectId}`,
     );
   }
 
@@ -254,8 +693,11 @@ export default class Gitlab extends HttpClient {
     gitlabUserId: string,
     dueDate: Date,
     gitlabIssueTemplateValues: GitlabIssueTemplateValues,
+    locale: Locale = DEFAULT_LOCALE,
   ): Promise<Issue> {
-    const issueTemplate = gitlabIssueTemplate(gitlabIssueTemplateValues);
+    const issueTemplate = getMessages(locale).gitlabIssueTemplate(
+      gitlabIssueTemplateValues,
+    );
     const body = {
       title: gitlabIssueTemplateValues.title,
       description: issueTemplate,
@@ -278,6 +720,37 @@ export default class Gitlab extends HttpClient {
     return issue;
   }
 
+  async createIssue(
+    projectId: string,
+    title: string,
+    description: string,
+  ): Promise<Issue> {
+    return await this.makeRequest<Issue, CreateIssueBody>(
+      `/projects/${projectId}/issues`,
+      { method: "POST", body: { title, description } },
+    );
+  }
+
+  async updateIssueDueDate(
+    projectId: string,
+    issueIid: number,
+    dueDate: Date,
+  ): Promise<Issue> {
+    const issue = await this.makeRequest<Issue, UpdateIssueBody>(
+      `/projects/${projectId}/issues/${issueIid}`,
+      {
+        method: "PUT",
+        body: { due_date: dateToISO(dueDate) },
+      },
+    );
+
+    console.log(
+      `[GitLab] Moved due date of issue ${issueIid} in project ${projectId} to ${issue.due_date}`,
+    );
+
+    return issue;
+  }
+
   async getProjectIssues(
     projectId: string,
     state = "all",
@@ -308,4 +781,20 @@ export default class Gitlab extends HttpClient {
 
     return issues;
   }
+
+  async getIssue(projectId: string, issueIid: number): Promise<Issue> {
+    return await this.makeRequest<Issue>(
+      `/projects/${projectId}/issues/${issueIid}`,
+    );
+  }
+
+  async getIssueNotes(
+    projectId: string,
+    issueIid: number,
+  ): Promise<IssueNote[]> {
+    return await this.getAllPages<IssueNote>(
+      `/projects/${projectId}/issues/${issueIid}/notes`,
+      { sort: "asc", order_by: "created_at" },
+    );
+  }
 }
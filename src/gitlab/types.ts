@@ -11,6 +11,21 @@ export type GitlabProject = {
   web_url: string;
 };
 
+export type BranchDetails = Branch & {
+  commit: { id: string };
+};
+
+export type ProjectDetails = GitlabProject & {
+  default_branch: string;
+  http_url_to_repo: string;
+  forked_from_project?: {
+    id: number;
+    name: string;
+    web_url: string;
+    default_branch: string;
+  };
+};
+
 export type ImportStatus = {
   import_status:
     | "failed"
@@ -34,6 +49,77 @@ export type Issue = {
   author: User;
   web_url: string;
   due_date?: string;
+  closed_at?: string | null;
+  description?: string | null;
+};
+
+export type IssueNote = {
+  id: number;
+  body: string;
+  author: User;
+  // Notes like "closed" or "changed the description" are created by GitLab itself
+  system: boolean;
+  created_at: string;
+};
+
+export type Commit = {
+  id: string;
+  title: string;
+  committed_date: string;
+};
+
+export type Comparison = {
+  commits: Commit[];
+  diffs: {
+    old_path: string;
+    new_path: string;
+    // Unified diff, empty for diffs GitLab considers too large
+    diff: string;
+    deleted_file: boolean;
+  }[];
+};
+
+export type CommitDiff = {
+  old_path: string;
+  new_path: string;
+  new_file: boolean;
+  renamed_file: boolean;
+  deleted_file: boolean;
+};
+
+export type RepositoryFile = {
+  content: string;
+  encoding: "base64" | "text";
+};
+
+export type CommitAuthor = {
+  name: string;
+  email: string;
+};
+
+export type CommitAction = {
+  action: "create" | "update" | "delete" | "move";
+  file_path: string;
+  previous_path?: string;
+  content?: string;
+  encoding?: "base64" | "text";
+};
+
+export type CreateCommitBody = {
+  branch: string;
+  commit_message: string;
+  author_name: string;
+  author_email: string;
+  actions: CommitAction[];
+};
+
+export type SubmissionStats = {
+  commitCount: number;
+  firstCommitAt?: Date;
+  lastCommitAt?: Date;
+  changedFiles: number;
+  // Share of each language in percent
+  languages: Record<string, number>;
 };
 
 export type ForkProjectBody = {
@@ -55,3 +141,92 @@ export type CreateHomeworkIssueBody = {
   assignee_ids: string;
   due_date: string;
 };
+
+export type CreateIssueBody = {
+  title: string;
+  description: string;
+};
+
+export type CreateBranchBody = {
+  branch: string;
+  ref: string;
+};
+
+export type ProtectBranchBody = {
+  name: string;
+  push_access_level: number;
+  merge_access_level: number;
+};
+
+export type Tag = {
+  name: string;
+  commit: { id: string };
+};
+
+export type CreateTagBody = {
+  tag_name: string;
+  ref: string;
+};
+
+export type ProtectTagBody = {
+  name: string;
+  create_access_level: number;
+};
+
+export type MergeRequest = {
+  iid: number;
+  title: string;
+  web_url: string;
+};
+
+export type CreateMergeRequestBody = {
+  source_branch: string;
+  target_branch: string;
+  title: string;
+  description: string;
+};
+
+export type UpdateMemberBody = {
+  access_level: number;
+  expires_at: string;
+};
+
+export type UpdateMemberAccessLevelBody = {
+  access_level: number;
+};
+
+export type UpdateIssueBody = {
+  due_date: string;
+};
+
+export type ProjectHook = {
+  id: number;
+  url: string;
+  issues_events: boolean;
+};
+
+export type AddHookBody = {
+  url: string;
+  token: string;
+  issues_events: boolean;
+  push_events: boolean;
+};
+
+export type WebhookConfig = {
+  url: string;
+  token: string;
+};
+
+export type IssueWebhookEvent = {
+  object_kind: "issue";
+  project: {
+    id: number;
+    web_url: string;
+  };
+  object_attributes: {
+    iid: number;
+    author_id: number;
+    state: "opened" | "closed";
+    action?: "open" | "close" | "reopen" | "update";
+  };
+};
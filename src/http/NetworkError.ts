@@ -0,0 +1,13 @@
+// The request never got an answer, e.g. because the connection failed
+export class NetworkError extends Error {
+  readonly cause: unknown;
+
+  constructor(url: string, cause: unknown) {
+    super(
+      `HTTP request to ${url} failed without response: ${
+        cause instanceof Error ? cause.message : String(cause)
+      }`,
+    );
+    this.cause = cause;
+  }
+}
@@ -4,6 +4,7 @@ import {
 } from "https://deno.land/std@0.100.0/testing/asserts.ts";
 import HttpClient from "./http.ts";
 import { HttpError } from "./HttpError.ts";
+import { NetworkError } from "./NetworkError.ts";
 
 export async function withMockedFetch(
   mockedFetch: (input: Request | URL | string, init?: RequestInit) => Response,
@@ -68,3 +69,19 @@ Deno.test("http client throws error on unexpected status code with body", async
     },
   );
 });
+
+Deno.test("http client throws a network error if there is no response", async () => {
+  await withMockedFetch(
+    () => {
+      throw new TypeError("error sending request");
+    },
+    async () => {
+      const httpClient = new HttpClient("baseUrl", "token");
+      await assertThrowsAsync(
+        () => httpClient.makeRequest<{ state: string }>("/"),
+        NetworkError,
+        "HTTP request to baseUrl/ failed without response: error sending request",
+      );
+    },
+  );
+});
@@ -1,5 +1,6 @@
 import { HttpRequestOptions } from "./../types.ts";
 import { HttpError } from "./HttpError.ts";
+import { NetworkError } from "./NetworkError.ts";
 
 export default class HttpClient {
   private baseUrl: string;
@@ -14,19 +15,33 @@ export default class HttpClient {
     slug: string,
     options?: HttpRequestOptions<TBody>,
   ): Promise<TResponse> {
+    return (await this.makeRequestWithHeaders<TResponse, TBody>(slug, options))
+      .body;
+  }
+
+  // For APIs that announce further pages in the response headers
+  async makeRequestWithHeaders<TResponse = unknown, TBody = unknown>(
+    slug: string,
+    options?: HttpRequestOptions<TBody>,
+  ): Promise<{ body: TResponse; headers: Headers }> {
     let url = `${this.baseUrl}${slug}`;
     if (options?.queryParams) {
       url += `?${new URLSearchParams(options.queryParams).toString()}`;
     }
 
-    const response = await fetch(url, {
-      method: options?.method || "GET",
-      headers: {
-        "Content-Type": "application/json",
-        Authorization: `Bearer ${this.apiToken}`,
-      },
-      body: options?.body ? JSON.stringify(options.body) : null,
-    });
+    let response: Response;
+    try {
+      response = await fetch(url, {
+        method: options?.method || "GET",
+        headers: {
+          "Content-Type": "application/json",
+          Authorization: `Bearer ${this.apiToken}`,
+        },
+        body: options?.body ? JSON.stringify(options.body) : null,
+      });
+    } catch (error) {
+      throw new NetworkError(url, error);
+    }
 
     if (!response.ok) {
       let body;
@@ -41,6 +56,9 @@ export default class HttpClient {
       throw new HttpError(response.status, body);
     }
 
-    return response.body ? response.json() : undefined;
+    return {
+      body: response.body ? await response.json() : undefined,
+      headers: response.headers,
+    };
   }
 }
@@ -3,12 +3,34 @@ import Gitlab from "./gitlab/gitlab.ts";
 import { parse } from "https://deno.land/std@0.78.0/flags/mod.ts";
 import Bot from "./bot/bot.ts";
 import HealthchecksIO from "./monitoring/healthchecksio.ts";
+import WebhookServer from "./webhooks/server.ts";
+import RecruiteeWebhookHandler from "./webhooks/recruitee.ts";
+import GitlabWebhookHandler from "./webhooks/gitlab.ts";
+import { WebhookConfig } from "./gitlab/types.ts";
+import JsonFileStore from "./store/jsonfile.ts";
+import Pipelines from "./evaluation/pipelines.ts";
+import { getEnvironment, getTimezone, isValidTimezone } from "./tools.ts";
+import { loadConfig } from "./config/config.ts";
+import { ConfigError } from "./config/ConfigError.ts";
+import { BotConfig, HomeworkCatalog, MailTemplates } from "./config/types.ts";
+import { loadHomeworkCatalog } from "./config/catalog.ts";
+import {
+  getMailTemplateVariants,
+  loadMailTemplates,
+} from "./config/mailTemplates.ts";
+
+const WEBHOOK_MODE_DEFAULT_INTERVAL_IN_S = 900;
 
 const args = parse(Deno.args, {
   default: { o: false, tagRequired: undefined, d: false, "dry-run": false },
 });
 
-const pollingIntervalInS: number = Math.max(args.interval, 15);
+const webhookPort: number | undefined = args["webhook-port"];
+const pollingIntervalInS: number = Math.max(
+  args.interval ??
+    (webhookPort != undefined ? WEBHOOK_MODE_DEFAULT_INTERVAL_IN_S : 0),
+  15,
+);
 const tagRequired: string | undefined = args.tag;
 const deleteProjectInTheEnd: boolean = args.d;
 const dryRun = args["dry-run"];
@@ -17,10 +39,20 @@ const {
   GITLAB_TOKEN,
   GITLAB_TEMPLATES_NAMESPACE,
   GITLAB_HOMEWORK_NAMESPACE,
+  GITLAB_REVIEW_NAMESPACE,
   RECRUITEE_TOKEN,
   COMPANY_ID,
   HEALTHCHECKS_UUID,
-} = Deno.env.toObject();
+  RECRUITEE_WEBHOOK_SECRET,
+  GITLAB_WEBHOOK_URL,
+  GITLAB_WEBHOOK_SECRET,
+  GITLAB_WEBHOOK_SCOPE = "project",
+  STATE_FILE = "./bot-state.json",
+  BOT_CONFIG_FILE = "./bot-config.json",
+  HOMEWORK_CATALOG_FILE = "./homework-catalog.json",
+  MAIL_TEMPLATES_DIR = "./mail-templates",
+  EVALUATION_API_URL = Gitlab.API_BASE_URL,
+} = getEnvironment();
 
 if (!GITLAB_TOKEN) {
   exitWithError("No GITLAB_TOKEN given");
@@ -40,6 +72,23 @@ if (!COMPANY_ID) {
 if (!HEALTHCHECKS_UUID) {
   exitWithError("No HEALTHCHECKS_UUID given");
 }
+if (webhookPort != undefined && !RECRUITEE_WEBHOOK_SECRET) {
+  exitWithError("No RECRUITEE_WEBHOOK_SECRET given");
+}
+if (GITLAB_WEBHOOK_URL && !GITLAB_WEBHOOK_SECRET) {
+  exitWithError("No GITLAB_WEBHOOK_SECRET given");
+}
+if (!isValidTimezone(getTimezone())) {
+  exitWithError(`TIMEZONE "${getTimezone()}" is not a valid time zone`);
+}
+if (!["project", "group"].includes(GITLAB_WEBHOOK_SCOPE)) {
+  exitWithError("GITLAB_WEBHOOK_SCOPE has to be either 'project' or 'group'");
+}
+
+const gitlabWebhook: WebhookConfig | undefined =
+  webhookPort != undefined && GITLAB_WEBHOOK_URL
+    ? { url: GITLAB_WEBHOOK_URL, token: GITLAB_WEBHOOK_SECRET }
+    : undefined;
 
 if (tagRequired != undefined) {
   console.log(
@@ -51,21 +100,55 @@ const gitlab = new Gitlab(
   GITLAB_TOKEN,
   GITLAB_TEMPLATES_NAMESPACE,
   GITLAB_HOMEWORK_NAMESPACE,
+  GITLAB_WEBHOOK_SCOPE == "project" ? gitlabWebhook : undefined,
+  GITLAB_REVIEW_NAMESPACE || undefined,
 );
 
-const recruitee = new Recruitee(COMPANY_ID, RECRUITEE_TOKEN);
+const pipelines = new Pipelines(EVALUATION_API_URL, GITLAB_TOKEN);
 const healthchecksIO = new HealthchecksIO(HEALTHCHECKS_UUID);
+const store = new JsonFileStore(STATE_FILE);
+
+let config: BotConfig = {};
+let mailTemplates: MailTemplates | null = null;
+let homeworkCatalog: HomeworkCatalog | null = null;
+try {
+  mailTemplates = await loadMailTemplates(MAIL_TEMPLATES_DIR);
+  homeworkCatalog = await loadHomeworkCatalog(
+    HOMEWORK_CATALOG_FILE,
+    getMailTemplateVariants(mailTemplates),
+  );
+  config = await loadConfig(
+    BOT_CONFIG_FILE,
+    homeworkCatalog ? Object.keys(homeworkCatalog) : undefined,
+  );
+} catch (error) {
+  if (!(error instanceof ConfigError)) {
+    throw error;
+  }
+  exitWithError(error.message);
+}
+
+const recruitee = new Recruitee(
+  COMPANY_ID,
+  RECRUITEE_TOKEN,
+  config,
+  mailTemplates,
+);
 
 const bot = new Bot(
   gitlab,
   recruitee,
   healthchecksIO,
+  store,
+  config,
+  homeworkCatalog,
+  pipelines,
   deleteProjectInTheEnd,
   tagRequired,
   dryRun,
 );
 
-if (args.interval == undefined) {
+if (args.interval == undefined && webhookPort == undefined) {
   console.log(`🕵️  Checking for uncompleted homework once.\n`);
 
   await bot.poll();
@@ -80,6 +163,39 @@ if (args.interval == undefined) {
   setInterval(() => bot.poll(), pollingIntervalInS * 1000);
 }
 
+if (webhookPort != undefined) {
+  const webhookServer = new WebhookServer(webhookPort);
+  const recruiteeWebhookHandler = new RecruiteeWebhookHandler(
+    RECRUITEE_WEBHOOK_SECRET,
+    bot,
+  );
+
+  webhookServer.addRoute(
+    "/webhooks/recruitee",
+    (request) => recruiteeWebhookHandler.handle(request),
+  );
+
+  if (gitlabWebhook) {
+    if (GITLAB_WEBHOOK_SCOPE == "group") {
+      await gitlab.registerHomeworkGroupHook(gitlabWebhook);
+    }
+
+    const botGitlabUser = await gitlab.getOwnUserInfo();
+    const gitlabWebhookHandler = new GitlabWebhookHandler(
+      gitlabWebhook.token,
+      botGitlabUser.id,
+      bot,
+    );
+
+    webhookServer.addRoute(
+      "/webhooks/gitlab",
+      (request) => gitlabWebhookHandler.handle(request),
+    );
+  }
+
+  await webhookServer.listen();
+}
+
 function exitWithError(message: string) {
   console.error(message);
   Deno.exit();
@@ -0,0 +1,43 @@
+import {
+  assertEquals,
+  assertStringIncludes,
+} from "https://deno.land/std@0.100.0/testing/asserts.ts";
+import { getMessages, LOCALES, MAIL_TEMPLATE_VARIANTS } from "./messages.ts";
+
+const reminderValues = {
+  applicantName: "Sam",
+  // deno-lint-ignore camelcase
+  mk_signature: "",
+  issueUrl: "",
+  homeworkDueDate: new Date("2021-12-24T10:00:00Z"),
+};
+
+Deno.test("due dates are formatted for the locale of the mail", () => {
+  assertStringIncludes(
+    getMessages("de-informal").homeworkReminderTemplate(reminderValues),
+    "Du hast noch bis zum 24.12. Zeit.",
+  );
+  assertStringIncludes(
+    getMessages("de-formal").homeworkReminderTemplate(reminderValues),
+    "Sie haben noch bis zum 24.12. Zeit.",
+  );
+  assertStringIncludes(
+    getMessages("en").homeworkReminderTemplate(reminderValues),
+    "You have time until 24 December.",
+  );
+});
+
+Deno.test("every locale offers the default mail template", () => {
+  assertEquals(MAIL_TEMPLATE_VARIANTS, ["default"]);
+  assertEquals(LOCALES, ["de-informal", "de-formal", "en"]);
+});
+
+Deno.test("gitlabIssueTemplate lists the questions of the homework", () => {
+  const issue = getMessages("en").gitlabIssueTemplate({
+    title: "",
+    applicantName: "Sam",
+    questions: ["Why?", "How?"],
+  });
+
+  assertStringIncludes(issue, "  1. Why?\n  2. How?");
+});
@@ -0,0 +1,127 @@
+import {
+  GitlabIssueTemplateValues,
+  HomeworkExtensionTemplateValues,
+  HomeworkReminderTemplateValues,
+  LocaleMessages,
+  SendHomeworkTemplateValues,
+} from "./types.ts";
+import { getTimezone } from "../tools.ts";
+
+const formatDate = (date: Date) =>
+  date.toLocaleDateString("de-DE", {
+    timeZone: getTimezone(),
+    day: "numeric",
+    month: "numeric",
+  });
+
+const signature = (names: string[]) => {
+  if (names.length === 0) {
+    return "Ihre sipgate hacking talents";
+  }
+  if (names.length > 1) {
+    const sorted = [...names].sort();
+    const last = sorted.pop();
+    return `${sorted.join(", ")} und ${last} von den sipgate hacking talents`;
+  }
+  return `${names[0]} von den sipgate hacking talents`;
+};
+
+const sendHomeworkTemplate = (values: SendHomeworkTemplateValues) =>
+  `<p>Guten Tag ${values.applicantName},</p><br />
+
+  <p>vielen Dank für die Zusendung Ihres GitLab-Accounts.</p>
+
+  <p>Sie sollten bereits zwei Benachrichtigungen von GitLab erhalten haben. In dem <a href="${values.projectUrl}">GitLab-Repository</a>
+  finden Sie in der README Datei die Hausaufgabe.
+  Sie haben für die Bearbeitung der Hausaufgabe erst einmal bis zum ${
+    formatDate(values.homeworkDueDate)
+  } Zeit.
+  Falls es zeitlich zu dem Datum knapp werden sollte, melden Sie sich bitte rechtzeitig bei uns - wir alle kennen solche stressigen Wochen!</p>
+
+  <p>Klasse wäre es, wenn Sie uns an Ihren Überlegungen beim Lösen der Hausaufgabe teilhaben lassen. Dafür können Sie die Funktionen von GitLab nutzen
+  und mehrere Commits einstellen. Da es oft verschiedene Lösungswege gibt, können wir so die Entwicklung Ihrer Lösung besser verstehen.</p>
+
+  <p>Falls Sie bisher keine oder nur wenige Erfahrungen mit dem Versionskontrollsystem Git haben, empfehlen wir Ihnen die folgende Links anzusehen:
+    <ul>
+      <li><a href="https://www.freecodecamp.org/news/what-is-git-and-how-to-use-it-c341b049ae61/">An introduction to Git</a></li>
+      <li><a href="https://git-scm.com/video/get-going">Get going with Git (Video)</a></li>
+    </ul>
+  </p>
+
+  <p>Wenn Sie mit der Bearbeitung der Hausaufgabe fertig sind, beantworten Sie bitte noch ein paar Fragen zu Ihrer Hausaufgabe. Diese finden Sie als Issue
+  im selben Repository und unter dem Link <a href="${values.issueUrl}">hier</a>.
+  Bitte schließen Sie das Issue mit Ihrer Antwort, damit wir eine Benachrichtigung bekommen!</p>
+
+  <p>Falls Sie Fragen haben sollten, können Sie uns sehr gerne eine E-Mail schreiben. Telefonisch sind wir leider nur schlecht erreichbar.</p>
+
+  <p>Der Zugang zum Repository läuft nach der Bearbeitungszeit automatisch ab. Das hat zur Folge, dass Sie ab diesem Zeitpunkt nicht länger pullen oder
+  pushen können.
+  Ihre Lösung werden wir uns im Anschluss in jedem Fall anschauen. Im Anschluss melden wir uns bei Ihnen.</p><br />
+  <p>Viel Erfolg und freundliche Grüße,<br />
+${values.mk_signature}</p>`;
+
+const homeworkReminderTemplate = (
+  values: HomeworkReminderTemplateValues,
+) =>
+  `<p>Guten Tag ${values.applicantName},</p><br />
+
+  <p>wir möchten Sie kurz daran erinnern, dass die Bearbeitungszeit Ihrer Hausaufgabe bald abläuft.
+  Sie haben noch bis zum ${formatDate(values.homeworkDueDate)} Zeit.</p>
+
+  <p>Wenn Sie fertig sind, schließen Sie bitte das <a href="${values.issueUrl}">Issue</a> mit Ihren Antworten, damit wir eine Benachrichtigung bekommen.
+  Falls es zeitlich knapp werden sollte, melden Sie sich gerne rechtzeitig bei uns!</p><br />
+  <p>Freundliche Grüße,<br />
+${values.mk_signature}</p>`;
+
+const homeworkExtensionTemplate = (
+  values: HomeworkExtensionTemplateValues,
+) =>
+  `<p>Guten Tag ${values.applicantName},</p><br />
+
+  <p>wie besprochen haben wir die Abgabefrist Ihrer Hausaufgabe verlängert. Sie haben jetzt bis zum ${
+    formatDate(values.homeworkDueDate)
+  } Zeit, auch Ihr Zugang zum Repository ist entsprechend verlängert.</p>
+
+  <p>Wenn Sie fertig sind, schließen Sie bitte das <a href="${values.issueUrl}">Issue</a> mit Ihren Antworten, damit wir eine Benachrichtigung bekommen.</p><br />
+  <p>Freundliche Grüße,<br />
+${values.mk_signature}</p>`;
+
+const issueQuestions = (questions: string[]) =>
+  questions.length > 0
+    ? ` Bitte beantworten Sie noch die folgenden Fragen zu Ihrer Hausaufgabe:\n\n${
+      questions.map((question, index) => `  ${index + 1}. ${question}`).join(
+        "\n",
+      )
+    }`
+    : "";
+
+const gitlabIssueTemplate = (values: GitlabIssueTemplateValues) => `
+  Guten Tag ${values.applicantName},
+
+  dieses Issue können Sie schließen, nachdem Sie die Hausaufgabe fertig bearbeitet haben.${
+  issueQuestions(values.questions)
+}
+
+  Nachdem Sie dieses Issue mit Ihren Antworten geschlossen haben, bekommen wir eine Benachrichtigung. Wir schauen uns anschließend Ihre Lösung genau an und
+  werden uns bei Ihnen melden.
+`;
+
+const messages: LocaleMessages = {
+  formatDate,
+  addressByFullName: true,
+  signature,
+  sendHomeworkSubject: "sipgate Hausaufgabe",
+  sendHomeworkTemplates: { default: sendHomeworkTemplate },
+  homeworkReminderSubject: "Erinnerung: sipgate Hausaufgabe",
+  homeworkReminderTemplate,
+  homeworkExtensionSubject: "Neue Abgabefrist: sipgate Hausaufgabe",
+  homeworkExtensionTemplate,
+  defaultIssueQuestions: [
+    "Welchen Teil würden Sie als größte Hürde beschreiben?",
+    "Was gefällt Ihnen an Ihrer Lösung am besten?",
+    "Was könnte man noch verbessern?",
+  ],
+  gitlabIssueTemplate,
+};
+
+export default messages;
@@ -0,0 +1,127 @@
+import {
+  GitlabIssueTemplateValues,
+  HomeworkExtensionTemplateValues,
+  HomeworkReminderTemplateValues,
+  LocaleMessages,
+  SendHomeworkTemplateValues,
+} from "./types.ts";
+import { getTimezone } from "../tools.ts";
+
+const formatDate = (date: Date) =>
+  date.toLocaleDateString("de-DE", {
+    timeZone: getTimezone(),
+    day: "numeric",
+    month: "numeric",
+  });
+
+const signature = (names: string[]) => {
+  if (names.length === 0) {
+    return "deine sipgate hacking talents";
+  }
+  if (names.length > 1) {
+    const sorted = [...names].sort();
+    const last = sorted.pop();
+    return `${sorted.join(", ")} und ${last} von den sipgate hacking talents`;
+  }
+  return `${names[0]} von den sipgate hacking talents`;
+};
+
+const sendHomeworkTemplate = (values: SendHomeworkTemplateValues) =>
+  `<p>Hallo ${values.applicantName},</p><br />
+
+  <p>vielen Dank für die Zusendung deines GitLab-Accounts.</p>
+
+  <p>Du solltest bereits zwei Benachrichtigungen von GitLab erhalten haben. In dem <a href="${values.projectUrl}">GitLab-Repository</a>
+  findest du in der README Datei die Hausaufgabe.
+  Du hast für die Bearbeitung der Hausaufgabe erst einmal bis zum ${
+    formatDate(values.homeworkDueDate)
+  } Zeit.
+  Falls es zeitlich zu dem Datum knapp werden sollte, melde dich bitte rechtzeitig bei uns - wir alle kennen solche stressigen Wochen!</p>
+
+  <p>Klasse wäre es, wenn du uns an deinen Überlegungen beim Lösen der Hausaufgabe teilhaben lässt. Dafür kannst du die Funktionen von GitLab nutzen
+  und mehrere Commits einstellen. Da es oft verschiedene Lösungswege gibt, können wir so die Entwicklung deiner Lösung besser verstehen.</p>
+
+  <p>Falls du bisher keine oder nur wenige Erfahrungen mit dem Versionskontrollsystem Git hast, empfehlen wir dir die folgende Links anzusehen:
+    <ul>
+      <li><a href="https://www.freecodecamp.org/news/what-is-git-and-how-to-use-it-c341b049ae61/">An introduction to Git</a></li>
+      <li><a href="https://git-scm.com/video/get-going">Get going with Git (Video)</a></li>
+    </ul>
+  </p>
+
+  <p>Wenn du mit der Bearbeitung der Hausaufgabe fertig bist, beantworte bitte noch ein paar Fragen zu deiner Hausaufgabe. Diese findest du als Issue
+  im selben Repository und unter dem Link <a href="${values.issueUrl}">hier</a>.
+  Bitte schließe das Issue mit deiner Antwort, damit wir eine Benachrichtigung bekommen!</p>
+
+  <p>Falls Du Fragen haben solltest, kannst du uns sehr gerne eine E-Mail schreiben. Telefonisch sind wir leider nur schlecht erreichbar.</p>
+
+  <p>Der Zugang zum Repository läuft nach der Bearbeitungszeit automatisch ab. Das hat zur Folge, dass du ab diesem Zeitpunkt nicht länger pullen oder
+  pushen kannst.
+  Deine Lösung werden wir uns im Anschluss in jedem Fall anschauen. Im Anschluss melden wir uns bei dir.</p><br />
+  <p>Viel Erfolg und viele Grüße,<br />
+${values.mk_signature}</p>`;
+
+const homeworkReminderTemplate = (
+  values: HomeworkReminderTemplateValues,
+) =>
+  `<p>Hallo ${values.applicantName},</p><br />
+
+  <p>wir wollten dich kurz daran erinnern, dass die Bearbeitungszeit deiner Hausaufgabe bald abläuft.
+  Du hast noch bis zum ${formatDate(values.homeworkDueDate)} Zeit.</p>
+
+  <p>Wenn du fertig bist, schließe bitte das <a href="${values.issueUrl}">Issue</a> mit deinen Antworten, damit wir eine Benachrichtigung bekommen.
+  Falls es zeitlich knapp werden sollte, melde dich gerne rechtzeitig bei uns!</p><br />
+  <p>Viele Grüße,<br />
+${values.mk_signature}</p>`;
+
+const homeworkExtensionTemplate = (
+  values: HomeworkExtensionTemplateValues,
+) =>
+  `<p>Hallo ${values.applicantName},</p><br />
+
+  <p>wie besprochen haben wir die Abgabefrist deiner Hausaufgabe verlängert. Du hast jetzt bis zum ${
+    formatDate(values.homeworkDueDate)
+  } Zeit, auch dein Zugang zum Repository ist entsprechend verlängert.</p>
+
+  <p>Wenn du fertig bist, schließe bitte das <a href="${values.issueUrl}">Issue</a> mit deinen Antworten, damit wir eine Benachrichtigung bekommen.</p><br />
+  <p>Viele Grüße,<br />
+${values.mk_signature}</p>`;
+
+const issueQuestions = (questions: string[]) =>
+  questions.length > 0
+    ? ` Bitte beantworte noch die folgenden Fragen zu deiner Hausaufgabe:\n\n${
+      questions.map((question, index) => `  ${index + 1}. ${question}`).join(
+        "\n",
+      )
+    }`
+    : "";
+
+const gitlabIssueTemplate = (values: GitlabIssueTemplateValues) => `
+  Hallo ${values.applicantName},
+
+  dieses Issue kannst du schließen, nachdem du die Hausaufgabe fertig bearbeitet hast.${
+  issueQuestions(values.questions)
+}
+
+  Nachdem du dieses Issue mit deinen Antworten geschlossen hast, bekommen wir eine Benachrichtigung. Wir schauen uns anschließend deine Lösung genau an und
+  werden uns bei dir melden.
+`;
+
+const messages: LocaleMessages = {
+  formatDate,
+  addressByFullName: false,
+  signature,
+  sendHomeworkSubject: "sipgate Hausaufgabe",
+  sendHomeworkTemplates: { default: sendHomeworkTemplate },
+  homeworkReminderSubject: "Erinnerung: sipgate Hausaufgabe",
+  homeworkReminderTemplate,
+  homeworkExtensionSubject: "Neue Abgabefrist: sipgate Hausaufgabe",
+  homeworkExtensionTemplate,
+  defaultIssueQuestions: [
+    "Welchen Teil würdest du als größte Hürde beschreiben?",
+    "Was gefällt dir an deiner Lösung am besten?",
+    "Was könnte man noch verbessern?",
+  ],
+  gitlabIssueTemplate,
+};
+
+export default messages;
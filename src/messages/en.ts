@@ -0,0 +1,127 @@
+import {
+  GitlabIssueTemplateValues,
+  HomeworkExtensionTemplateValues,
+  HomeworkReminderTemplateValues,
+  LocaleMessages,
+  SendHomeworkTemplateValues,
+} from "./types.ts";
+import { getTimezone } from "../tools.ts";
+
+const formatDate = (date: Date) =>
+  date.toLocaleDateString("en-GB", {
+    timeZone: getTimezone(),
+    day: "numeric",
+    month: "long",
+  });
+
+const signature = (names: string[]) => {
+  if (names.length === 0) {
+    return "your sipgate hacking talents";
+  }
+  if (names.length > 1) {
+    const sorted = [...names].sort();
+    const last = sorted.pop();
+    return `${sorted.join(", ")} and ${last} of the sipgate hacking talents`;
+  }
+  return `${names[0]} of the sipgate hacking talents`;
+};
+
+const sendHomeworkTemplate = (values: SendHomeworkTemplateValues) =>
+  `<p>Hi ${values.applicantName},</p><br />
+
+  <p>thank you for sending us your GitLab account.</p>
+
+  <p>You should already have received two notifications from GitLab. You will find the homework assignment in the README file of the
+  <a href="${values.projectUrl}">GitLab repository</a>.
+  For now, you have time to work on the assignment until ${
+    formatDate(values.homeworkDueDate)
+  }.
+  If time gets tight, please let us know in good time - we all know stressful weeks like these!</p>
+
+  <p>It would be great if you let us follow your thoughts while solving the assignment. You can use the features of GitLab for that
+  and push several commits. As there are often different ways to solve it, this helps us to understand how your solution evolved.</p>
+
+  <p>If you have little or no experience with the version control system Git so far, we recommend having a look at the following links:
+    <ul>
+      <li><a href="https://www.freecodecamp.org/news/what-is-git-and-how-to-use-it-c341b049ae61/">An introduction to Git</a></li>
+      <li><a href="https://git-scm.com/video/get-going">Get going with Git (Video)</a></li>
+    </ul>
+  </p>
+
+  <p>Once you are done with the assignment, please answer a few questions about it. You will find them in an issue
+  in the same repository and <a href="${values.issueUrl}">here</a>.
+  Please close the issue with your answers, so that we get notified!</p>
+
+  <p>If you have any questions, feel free to send us an e-mail. Unfortunately, we are hard to reach by phone.</p>
+
+  <p>Your access to the repository expires automatically after the deadline. From then on, you will no longer be able to pull or
+  push.
+  We will have a look at your solution in any case and get back to you afterwards.</p><br />
+  <p>Good luck and best regards,<br />
+${values.mk_signature}</p>`;
+
+const homeworkReminderTemplate = (
+  values: HomeworkReminderTemplateValues,
+) =>
+  `<p>Hi ${values.applicantName},</p><br />
+
+  <p>we would like to remind you that the time for your homework assignment ends soon.
+  You have time until ${formatDate(values.homeworkDueDate)}.</p>
+
+  <p>Once you are done, please close the <a href="${values.issueUrl}">issue</a> with your answers, so that we get notified.
+  If time gets tight, please let us know in good time!</p><br />
+  <p>Best regards,<br />
+${values.mk_signature}</p>`;
+
+const homeworkExtensionTemplate = (
+  values: HomeworkExtensionTemplateValues,
+) =>
+  `<p>Hi ${values.applicantName},</p><br />
+
+  <p>as discussed, we extended the deadline of your homework assignment. You now have time until ${
+    formatDate(values.homeworkDueDate)
+  }, your access to the repository has been extended as well.</p>
+
+  <p>Once you are done, please close the <a href="${values.issueUrl}">issue</a> with your answers, so that we get notified.</p><br />
+  <p>Best regards,<br />
+${values.mk_signature}</p>`;
+
+const issueQuestions = (questions: string[]) =>
+  questions.length > 0
+    ? ` Please answer the following questions about your assignment:\n\n${
+      questions.map((question, index) => `  ${index + 1}. ${question}`).join(
+        "\n",
+      )
+    }`
+    : "";
+
+const gitlabIssueTemplate = (values: GitlabIssueTemplateValues) => `
+  Hi ${values.applicantName},
+
+  you can close this issue once you are done with the homework assignment.${
+  issueQuestions(values.questions)
+}
+
+  Once you have closed this issue with your answers, we get notified. We will then take a close look at your solution and
+  get back to you.
+`;
+
+const messages: LocaleMessages = {
+  formatDate,
+  addressByFullName: false,
+  signature,
+  sendHomeworkSubject: "sipgate homework assignment",
+  sendHomeworkTemplates: { default: sendHomeworkTemplate },
+  homeworkReminderSubject: "Reminder: sipgate homework assignment",
+  homeworkReminderTemplate,
+  homeworkExtensionSubject: "New deadline: sipgate homework assignment",
+  homeworkExtensionTemplate,
+  defaultIssueQuestions: [
+    "Which part would you describe as the biggest hurdle?",
+    "What do you like most about your solution?",
+    "What could still be improved?",
+  ],
+  gitlabIssueTemplate,
+};
+
+export default messages;
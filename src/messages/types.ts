@@ -0,0 +1,47 @@
+export type Locale = "de-informal" | "de-formal" | "en";
+
+export interface SendHomeworkTemplateValues {
+  applicantName: string;
+  // deno-lint-ignore camelcase
+  mk_signature: string;
+  projectUrl: string;
+  issueUrl: string;
+  homeworkDueDate: Date;
+}
+
+export interface HomeworkReminderTemplateValues {
+  applicantName: string;
+  // deno-lint-ignore camelcase
+  mk_signature: string;
+  issueUrl: string;
+  homeworkDueDate: Date;
+}
+
+export type HomeworkExtensionTemplateValues = HomeworkReminderTemplateValues;
+
+export interface GitlabIssueTemplateValues {
+  title: string;
+  applicantName: string;
+  questions: string[];
+}
+
+export type LocaleMessages = {
+  formatDate: (date: Date) => string;
+  // Formal salutations address the candidate by their full name
+  addressByFullName: boolean;
+  signature: (names: string[]) => string;
+  sendHomeworkSubject: string;
+  // Homeworks choose one of these variants in the homework catalog
+  sendHomeworkTemplates: Record<
+    string,
+    (values: SendHomeworkTemplateValues) => string
+  >;
+  homeworkReminderSubject: string;
+  homeworkReminderTemplate: (values: HomeworkReminderTemplateValues) => string;
+  homeworkExtensionSubject: string;
+  homeworkExtensionTemplate: (
+    values: HomeworkExtensionTemplateValues,
+  ) => string;
+  defaultIssueQuestions: string[];
+  gitlabIssueTemplate: (values: GitlabIssueTemplateValues) => string;
+};
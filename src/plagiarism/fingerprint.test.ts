@@ -0,0 +1,107 @@
+import { assertEquals } from "https://deno.land/std@0.100.0/testing/asserts.ts";
+import { Comparison } from "../gitlab/types.ts";
+import {
+  fingerprint,
+  getAddedCode,
+  removeCommonFingerprints,
+  similarity,
+  tokenize,
+} from "./fingerprint.ts";
+
+const code = `
+export function sum(numbers: number[]): number {
+  let total = 0;
+  for (const value of numbers) {
+    total += value;
+  }
+  return total;
+}
+`;
+
+Deno.test("tokenize ignores whitespace and case", () => {
+  assertEquals(tokenize("const  Total=a+1.5;"), [
+    "const",
+    "total",
+    "=",
+    "a",
+    "+",
+    "1.5",
+    ";",
+  ]);
+});
+
+Deno.test("fingerprint of reformatted code is the same", () => {
+  const reformatted = code.replace(/\n\s*/g, " ").replace(/;/g, " ;");
+
+  assertEquals(fingerprint(reformatted), fingerprint(code));
+});
+
+Deno.test("fingerprint of code shorter than a k-gram is empty", () => {
+  assertEquals(fingerprint("return total;").size, 0);
+});
+
+Deno.test("similarity is the share of the submission found in the other code", () => {
+  const submission = fingerprint(code);
+
+  assertEquals(similarity(submission, fingerprint(code)), 1);
+  assertEquals(
+    similarity(submission, fingerprint("console.log('hello world');")),
+    0,
+  );
+  assertEquals(similarity(new Set(), submission), 0);
+});
+
+Deno.test("copied code within a larger submission is still found", () => {
+  const submission = fingerprint(
+    code + "\nexport const average = (n: number[]) => sum(n) / n.length;",
+  );
+
+  const result = similarity(fingerprint(code), submission);
+  assertEquals(result, 1);
+  assertEquals(similarity(submission, fingerprint(code)) < 1, true);
+});
+
+Deno.test("getAddedCode only keeps added lines of relevant files", () => {
+  const comparison: Comparison = {
+    commits: [],
+    diffs: [
+      {
+        old_path: "src/sum.ts",
+        new_path: "src/sum.ts",
+        diff:
+          "@@ -1,2 +1,2 @@\n-// TODO\n+const total = 0;\n unchanged();\n+return total;",
+        deleted_file: false,
+      },
+      {
+        old_path: "old.ts",
+        new_path: "old.ts",
+        diff: "@@ -1 +0,0 @@\n-removed();",
+        deleted_file: true,
+      },
+      {
+        old_path: "package-lock.json",
+        new_path: "package-lock.json",
+        diff: '@@ -1 +1 @@\n+{"lockfileVersion": 2}',
+        deleted_file: false,
+      },
+    ],
+  };
+
+  assertEquals(getAddedCode(comparison), "const total = 0;\nreturn total;");
+});
+
+Deno.test("removeCommonFingerprints drops code most submissions share", () => {
+  const submission = new Set([1, 2, 3]);
+  const others = [
+    new Set([1, 2]),
+    new Set([1]),
+    new Set([1]),
+    new Set([4]),
+  ];
+
+  assertEquals(removeCommonFingerprints(submission, others), new Set([2, 3]));
+  assertEquals(
+    removeCommonFingerprints(submission, others.slice(0, 2)),
+    submission,
+  );
+});
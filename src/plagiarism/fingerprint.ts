@@ -0,0 +1,102 @@
+import { Comparison } from "../gitlab/types.ts";
+
+// Number of consecutive tokens hashed into one k-gram, shorter matches are ignored
+const K_GRAM_SIZE = 8;
+// Every run of this many consecutive k-grams contributes at least one fingerprint
+const WINDOW_SIZE = 4;
+// Fingerprints found in more than this share of all submissions are boilerplate everyone writes
+const COMMON_FINGERPRINT_SHARE = 0.5;
+const MIN_SUBMISSIONS_FOR_COMMON_FINGERPRINTS = 5;
+
+// Generated files are the same for everyone and say nothing about the candidate
+const IGNORED_FILE_PATTERNS = [
+  /(^|\/)(package-lock\.json|yarn\.lock|pnpm-lock\.yaml|deno\.lock|Cargo\.lock|Gemfile\.lock|composer\.lock|poetry\.lock)$/,
+  /\.(min\.js|map|svg|snap)$/,
+];
+
+const TOKEN_PATTERN = /[A-Za-z_$][\w$]*|\d+(?:\.\d+)?|[^\s\w]/g;
+
+export type Fingerprints = Set<number>;
+
+export function tokenize(code: string): string[] {
+  return (code.match(TOKEN_PATTERN) ?? []).map((token) => token.toLowerCase());
+}
+
+// 32 bit FNV-1a
+function hash(text: string): number {
+  let result = 0x811c9dc5;
+  for (let i = 0; i < text.length; i++) {
+    result ^= text.charCodeAt(i);
+    result = Math.imul(result, 0x01000193);
+  }
+  return result >>> 0;
+}
+
+// Winnowing: the smallest k-gram hash of every window is kept, so matches of K_GRAM_SIZE + WINDOW_SIZE - 1 tokens are always found
+export function fingerprint(code: string): Fingerprints {
+  const tokens = tokenize(code);
+  const hashes: number[] = [];
+  for (let i = 0; i + K_GRAM_SIZE <= tokens.length; i++) {
+    hashes.push(hash(tokens.slice(i, i + K_GRAM_SIZE).join(" ")));
+  }
+
+  const fingerprints: Fingerprints = new Set();
+  if (hashes.length > 0 && hashes.length < WINDOW_SIZE) {
+    fingerprints.add(Math.min(...hashes));
+  }
+  for (let i = 0; i + WINDOW_SIZE <= hashes.length; i++) {
+    fingerprints.add(Math.min(...hashes.slice(i, i + WINDOW_SIZE)));
+  }
+  return fingerprints;
+}
+
+// Only the added lines are the work of whoever committed them, the rest comes from the template
+export function getAddedCode(comparison: Comparison): string {
+  return comparison.diffs
+    .filter((diff) =>
+      !diff.deleted_file &&
+      !IGNORED_FILE_PATTERNS.some((pattern) => pattern.test(diff.new_path))
+    )
+    .flatMap((diff) =>
+      diff.diff
+        .split("\n")
+        .filter((line) => line.startsWith("+") && !line.startsWith("+++"))
+        .map((line) => line.slice(1))
+    )
+    .join("\n");
+}
+
+// Share of the submission's fingerprints that also appear in the other code
+export function similarity(
+  submission: Fingerprints,
+  other: Fingerprints,
+): number {
+  if (submission.size === 0) {
+    return 0;
+  }
+
+  let shared = 0;
+  for (const value of submission) {
+    if (other.has(value)) {
+      shared++;
+    }
+  }
+  return shared / submission.size;
+}
+
+export function removeCommonFingerprints(
+  submission: Fingerprints,
+  otherSubmissions: Fingerprints[],
+): Fingerprints {
+  const submissionCount = otherSubmissions.length + 1;
+  if (submissionCount < MIN_SUBMISSIONS_FOR_COMMON_FINGERPRINTS) {
+    return submission;
+  }
+
+  return new Set(
+    [...submission].filter((value) =>
+      otherSubmissions.filter((other) => other.has(value)).length + 1 <=
+        submissionCount * COMMON_FINGERPRINT_SHARE
+    ),
+  );
+}
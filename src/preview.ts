@@ -0,0 +1,110 @@
+import { parse } from "https://deno.land/std@0.78.0/flags/mod.ts";
+import Recruitee from "./recruitee/recruitee.ts";
+import { loadConfig } from "./config/config.ts";
+import { ConfigError } from "./config/ConfigError.ts";
+import { BotConfig, MailTemplates } from "./config/types.ts";
+import { DEFAULT_HOMEWORK_DURATION_IN_DAYS } from "./config/catalog.ts";
+import {
+  getMailTemplateVariants,
+  loadMailTemplates,
+  renderSendHomeworkMail,
+} from "./config/mailTemplates.ts";
+import {
+  DEFAULT_LOCALE,
+  getMessages,
+  isLocale,
+  Locale,
+  LOCALES,
+  SendHomeworkTemplateValues,
+} from "./messages.ts";
+import { addDaysToDate, getEnvironment } from "./tools.ts";
+
+// Renders the homework mail without sending it, either for a Recruitee candidate or with sample data
+const args = parse(Deno.args);
+
+const candidateId: number | undefined = args.candidate;
+const mailTemplate: string = args.template ?? "default";
+
+const {
+  RECRUITEE_TOKEN,
+  COMPANY_ID,
+  BOT_CONFIG_FILE = "./bot-config.json",
+  MAIL_TEMPLATES_DIR = "./mail-templates",
+} = getEnvironment();
+
+let config: BotConfig = {};
+let mailTemplates: MailTemplates | null = null;
+try {
+  config = await loadConfig(BOT_CONFIG_FILE);
+  mailTemplates = await loadMailTemplates(MAIL_TEMPLATES_DIR);
+} catch (error) {
+  if (!(error instanceof ConfigError)) {
+    throw error;
+  }
+  exitWithError(error.message);
+}
+
+const mailTemplateVariants = getMailTemplateVariants(mailTemplates);
+if (!mailTemplateVariants.includes(mailTemplate)) {
+  exitWithError(
+    `Unknown mail template "${mailTemplate}", available are ${
+      mailTemplateVariants.join(", ")
+    }`,
+  );
+}
+if (args.locale != undefined && !isLocale(args.locale)) {
+  exitWithError(`--locale has to be one of ${LOCALES.join(", ")}`);
+}
+
+const values: SendHomeworkTemplateValues = {
+  applicantName: "Erika",
+  projectUrl: "https://gitlab.com/homework/erika-mustermann",
+  issueUrl: "https://gitlab.com/homework/erika-mustermann/-/issues/1",
+  // The mail names the last day before the due date
+  homeworkDueDate: addDaysToDate(
+    new Date(),
+    DEFAULT_HOMEWORK_DURATION_IN_DAYS - 1,
+  ),
+  // deno-lint-ignore camelcase
+  mk_signature: getMessages(args.locale ?? DEFAULT_LOCALE).signature([]),
+};
+let locale: Locale = args.locale ?? DEFAULT_LOCALE;
+
+if (candidateId != undefined) {
+  if (!RECRUITEE_TOKEN) {
+    exitWithError("No RECRUITEE_TOKEN given");
+  }
+  if (!COMPANY_ID) {
+    exitWithError("No COMPANY_ID given");
+  }
+
+  const recruitee = new Recruitee(
+    COMPANY_ID,
+    RECRUITEE_TOKEN,
+    config,
+    mailTemplates,
+  );
+  const candidate = await recruitee.getCandidateById(candidateId);
+
+  locale = args.locale ?? recruitee.getCandidateLocale(candidate);
+  values.applicantName = recruitee.getCandidateSalutation(candidate);
+  values.mk_signature = recruitee.getSignature(candidate);
+}
+
+const mail = renderSendHomeworkMail(
+  mailTemplates,
+  locale,
+  mailTemplate,
+  values,
+);
+
+console.log(`Subject: ${getMessages(locale).sendHomeworkSubject}\n`);
+console.log(`----- HTML -----\n${mail.html}\n`);
+console.log(
+  `----- Text -----\n${mail.text ?? "(template without text version)"}`,
+);
+
+function exitWithError(message: string): never {
+  console.error(message);
+  Deno.exit(1);
+}
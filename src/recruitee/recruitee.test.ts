@@ -1,6 +1,7 @@
 import {
   assert,
   assertEquals,
+  assertThrows,
   assertThrowsAsync,
 } from "https://deno.land/std@0.100.0/testing/asserts.ts";
 import { Stub, stub } from "https://deno.land/x/mock@v0.9.5/mod.ts";
@@ -17,13 +18,10 @@ import {
   Task,
 } from "./types.ts";
 import { withMockedFetch } from "../http/http.test.ts";
-import Recruitee, {
-  ADDRESS_FIELD_NAME,
-  DEFAULT_SIGNATURE,
-  SHOULD_SEND_MAIL_FIELD_NAME,
-  SIGNATURE_FIELD_NAME,
-} from "./recruitee.ts";
-import { SendHomeworkTemplateValues } from "../messages.ts";
+import Recruitee from "./recruitee.ts";
+import { DEFAULT_WORKFLOW_CONFIG } from "../config/workflow.ts";
+import { getMessages, SendHomeworkTemplateValues } from "../messages.ts";
+import { RecruiteeError } from "./RecruiteeError.ts";
 
 function recruitee() {
   return new Recruitee("companyId", "apiToken");
@@ -130,6 +128,59 @@ Deno.test("getCandidateTasks returns correct tasks", () => {
   );
 });
 
+Deno.test("createCandidateTask assigns the task to all given admins", () => {
+  withMockedFetch(
+    (input, init) => {
+      assertEquals(input, `${Recruitee.BASE_URL}/companyId/tasks/`);
+      assertEquals(init?.method, "POST");
+      assertEquals(
+        init?.body,
+        JSON.stringify({
+          task: {
+            title: "Arbeitsvertrag",
+            candidate_id: 123,
+            admin_ids: ["1", "2"],
+          },
+        }),
+      );
+      return new Response(JSON.stringify({}));
+    },
+    async () => {
+      await recruitee().createCandidateTask(mockCandidate(), "Arbeitsvertrag", [
+        "1",
+        "2",
+      ]);
+    },
+  );
+});
+
+Deno.test("createCandidateTask sets the due date of the task", () => {
+  withMockedFetch(
+    (_input, init) => {
+      assertEquals(
+        init?.body,
+        JSON.stringify({
+          task: {
+            title: "Review vorbereiten",
+            candidate_id: 123,
+            admin_ids: ["1"],
+            due_date: "2021-06-02T00:00:00.000Z",
+          },
+        }),
+      );
+      return new Response(JSON.stringify({}));
+    },
+    async () => {
+      await recruitee().createCandidateTask(
+        mockCandidate(),
+        "Review vorbereiten",
+        "1",
+        new Date("2021-06-02T00:00:00.000Z"),
+      );
+    },
+  );
+});
+
 Deno.test("getCandidateById returns correct candidate", () => {
   const mockedCandidate = mockCandidate();
   const candidateId = mockedCandidate.id;
@@ -206,13 +257,38 @@ Deno.test(
   },
 );
 
+Deno.test(
+  "getCandidateSalutation reads the address field configured for the offer",
+  () => {
+    const recruiteeInstance = new Recruitee("companyId", "apiToken", {
+      offers: {
+        "7646574": {
+          followUpTasks: [],
+          workflow: { addressFieldName: "Salutation" },
+        },
+      },
+    });
+    const c: Candidate = {
+      ...mockCandidate(),
+      name: "Robert Nesta Marley",
+      fields: [{
+        ...mockCandidateSingleLineField(1, ["Bob"]),
+        name: "Salutation",
+      }],
+      placements: [mockPlacement(1)],
+    };
+
+    assertEquals(recruiteeInstance.getCandidateSalutation(c), "Bob");
+  },
+);
+
 Deno.test(
   "getCandidateSalutation gives override salutation if specified",
   () => {
     const salutationField: CandidateSingleLineField = {
       id: 123,
       kind: "single_line",
-      name: ADDRESS_FIELD_NAME,
+      name: DEFAULT_WORKFLOW_CONFIG.addressFieldName,
       values: [
         {
           text: "Bob",
@@ -250,6 +326,65 @@ Deno.test("sendMailToCandidate uses the correct URL and HTTP method", () => {
   );
 });
 
+Deno.test("sendReminderMailToCandidate sends the reminder template", () => {
+  const candidateId = 5;
+  const email = "peterle@sipgate.de";
+  withMockedFetch(
+    (input, init) => {
+      assertEquals(input, `${Recruitee.BASE_URL}/companyId/mailbox/send`);
+      assertEquals(init?.method, "POST");
+      const body = JSON.parse(init?.body as string);
+      assertEquals(body.subject, getMessages().homeworkReminderSubject);
+      assertEquals(body.to, [
+        { candidate_id: candidateId, candidate_email: email },
+      ]);
+      assertEquals(body.cc, ["peter@sipgate.de"]);
+      return new Response();
+    },
+    async () => {
+      const r = recruitee();
+      await r.sendReminderMailToCandidate(
+        candidateId,
+        email,
+        ["peter@sipgate.de"],
+        {
+          applicantName: "",
+          mk_signature: "",
+          issueUrl: "",
+          homeworkDueDate: new Date(),
+        },
+      );
+    },
+  );
+});
+
+Deno.test("sendExtensionMailToCandidate sends the extension template", () => {
+  withMockedFetch(
+    (input, init) => {
+      assertEquals(input, `${Recruitee.BASE_URL}/companyId/mailbox/send`);
+      assertEquals(init?.method, "POST");
+      const body = JSON.parse(init?.body as string);
+      assertEquals(body.subject, getMessages("en").homeworkExtensionSubject);
+      return new Response();
+    },
+    async () => {
+      const r = recruitee();
+      await r.sendExtensionMailToCandidate(
+        5,
+        "peterle@sipgate.de",
+        [],
+        {
+          applicantName: "",
+          mk_signature: "",
+          issueUrl: "",
+          homeworkDueDate: new Date(),
+        },
+        "en",
+      );
+    },
+  );
+});
+
 Deno.test(
   "updateProfileField adds a new single line field and uses the correct URL and HTTP method",
   () => {
@@ -435,7 +570,65 @@ Deno.test(
       tags: [],
     };
     const actual = recruitee().getSignature(c);
-    assertEquals(actual, DEFAULT_SIGNATURE);
+    assertEquals(actual, "deine sipgate hacking talents");
+  },
+);
+
+Deno.test("getCandidateLocale reads the locale from the profile field", () => {
+  const c: Candidate = {
+    ...mockCandidate(),
+    fields: [{
+      ...mockCandidateDropdownField(1, ["en"]),
+      name: DEFAULT_WORKFLOW_CONFIG.localeFieldName,
+    }],
+    placements: [mockPlacement(1)],
+  };
+
+  assertEquals(recruitee().getCandidateLocale(c), "en");
+});
+
+Deno.test("getCandidateLocale falls back to the locale of the offer", () => {
+  const recruiteeInstance = new Recruitee("companyId", "apiToken", {
+    offers: {
+      "7646574": { followUpTasks: [], workflow: {}, locale: "de-formal" },
+    },
+  });
+  const c: Candidate = { ...mockCandidate(), placements: [mockPlacement(1)] };
+
+  assertEquals(recruiteeInstance.getCandidateLocale(c), "de-formal");
+  assertEquals(recruitee().getCandidateLocale(c), "de-informal");
+});
+
+Deno.test("getCandidateLocale rejects unknown locales", () => {
+  const c: Candidate = {
+    ...mockCandidate(),
+    fields: [{
+      ...mockCandidateSingleLineField(1, ["fr"]),
+      name: DEFAULT_WORKFLOW_CONFIG.localeFieldName,
+    }],
+  };
+
+  assertThrows(
+    () => recruitee().getCandidateLocale(c),
+    RecruiteeError,
+    'Unbekannte Sprache "fr"',
+  );
+});
+
+Deno.test(
+  "getCandidateSalutation and getSignature follow the formal locale",
+  () => {
+    const c: Candidate = {
+      ...mockCandidate(),
+      name: "Robert Nesta Marley",
+      fields: [{
+        ...mockCandidateSingleLineField(1, ["de-formal"]),
+        name: DEFAULT_WORKFLOW_CONFIG.localeFieldName,
+      }],
+    };
+
+    assertEquals(recruitee().getCandidateSalutation(c), "Robert Nesta Marley");
+    assertEquals(recruitee().getSignature(c), "Ihre sipgate hacking talents");
   },
 );
 
@@ -443,7 +636,7 @@ Deno.test("getSignature returns override signature when specified", () => {
   const field: CandidateSingleLineField = {
     id: 123,
     kind: "single_line",
-    name: SIGNATURE_FIELD_NAME,
+    name: DEFAULT_WORKFLOW_CONFIG.signatureFieldName,
     values: [
       {
         text: "Override",
@@ -468,7 +661,7 @@ Deno.test(
     const field: CandidateBooleanField = {
       id: 123,
       kind: "boolean",
-      name: SHOULD_SEND_MAIL_FIELD_NAME,
+      name: DEFAULT_WORKFLOW_CONFIG.shouldSendMailFieldName,
       values: [],
     };
 
@@ -492,7 +685,7 @@ Deno.test(
     const field: CandidateBooleanField = {
       id: 123,
       kind: "boolean",
-      name: SHOULD_SEND_MAIL_FIELD_NAME,
+      name: DEFAULT_WORKFLOW_CONFIG.shouldSendMailFieldName,
       values: [{ flag: true }],
     };
 
@@ -516,7 +709,7 @@ Deno.test(
     const field: CandidateBooleanField = {
       id: 123,
       kind: "boolean",
-      name: SHOULD_SEND_MAIL_FIELD_NAME,
+      name: DEFAULT_WORKFLOW_CONFIG.shouldSendMailFieldName,
       values: [{ flag: false }],
     };
 
@@ -764,6 +957,35 @@ Deno.test(
   },
 );
 
+Deno.test(
+  "isBotTargetCandidate checks for a qualified placement in a bot offer",
+  async () => {
+    const recruiteeInstance = recruitee();
+    stub(recruiteeInstance, "getOffersWithTag", () => [
+      mockOffer(7646574, "1"),
+    ]);
+    const candidate = mockCandidate();
+
+    candidate.placements = [mockPlacement(1)];
+    assertEquals(await recruiteeInstance.isBotTargetCandidate(candidate), true);
+
+    candidate.placements = [{
+      ...mockPlacement(1),
+      disqualify_reason: "Not a match",
+    }];
+    assertEquals(
+      await recruiteeInstance.isBotTargetCandidate(candidate),
+      false,
+    );
+
+    candidate.placements = [{ ...mockPlacement(1), offer_id: 1 }];
+    assertEquals(
+      await recruiteeInstance.isBotTargetCandidate(candidate),
+      false,
+    );
+  },
+);
+
 function mockCandidate(id = 123): Candidate {
   return {
     id,
@@ -1,8 +1,13 @@
-import { isBooleanField, isSingleLineField } from "./tools.ts";
+import { isBooleanField, isDropdownField, isSingleLineField } from "./tools.ts";
 import HttpClient from "../http/http.ts";
 import {
-  sendHomeworkSubject,
-  sendHomeworkTemplate,
+  DEFAULT_LOCALE,
+  getMessages,
+  HomeworkExtensionTemplateValues,
+  HomeworkReminderTemplateValues,
+  isLocale,
+  Locale,
+  LOCALES,
   SendHomeworkTemplateValues,
 } from "../messages.ts";
 import {
@@ -20,7 +25,6 @@ import {
   Offer,
   SendMailToCandidateBody,
   StageDetail,
-  Tag,
   Task,
   TaskDetails,
   UpdateProfileFieldDropdownBody,
@@ -28,18 +32,27 @@ import {
 } from "./types.ts";
 import { RecruiteeError } from "./RecruiteeError.ts";
 import { EmojiErrorCodes } from "../errormojis.ts";
-
-export const ADDRESS_FIELD_NAME = "Anrede Override";
-export const SIGNATURE_FIELD_NAME = "Unterschrift Override";
-export const SHOULD_SEND_MAIL_FIELD_NAME = "Bot-Mails";
-export const DEFAULT_SIGNATURE = "deine sipgate hacking talents";
-const OFFER_BOT_TAG = "HT-Bot Target";
+import { BotConfig, MailTemplates, WorkflowConfig } from "../config/types.ts";
+import { getOfferBotTag, getWorkflowConfig } from "../config/workflow.ts";
+import { getOfferConfig } from "../config/config.ts";
+import { renderSendHomeworkMail } from "../config/mailTemplates.ts";
 
 export default class Recruitee extends HttpClient {
   public static BASE_URL = "https://api.recruitee.com/c";
 
-  constructor(companyId: string, apiToken: string) {
+  private config: BotConfig;
+  private mailTemplates: MailTemplates | null;
+
+  constructor(
+    companyId: string,
+    apiToken: string,
+    config: BotConfig = {},
+    mailTemplates: MailTemplates | null = null,
+  ) {
     super(`${Recruitee.BASE_URL}/${companyId}`, apiToken);
+
+    this.config = config;
+    this.mailTemplates = mailTemplates;
   }
 
   async getOffersWithTag(tag: string): Promise<Offer[]> {
@@ -91,13 +104,16 @@ export default class Recruitee extends HttpClient {
   async createCandidateTask(
     candidate: Candidate,
     title: string,
-    adminID?: string,
+    adminIDs?: string | string[],
+    dueDate?: Date,
   ): Promise<TaskDetails> {
+    const assignedAdminIDs = adminIDs ? ([] as string[]).concat(adminIDs) : [];
     const body = {
       task: {
         title,
         candidate_id: candidate.id,
-        admin_ids: adminID ? [adminID] : undefined,
+        admin_ids: assignedAdminIDs.length > 0 ? assignedAdminIDs : undefined,
+        due_date: dueDate?.toISOString(),
       },
     };
     return await this.makeRequest<TaskDetails, CreateCandidateTaskBody>(
@@ -161,7 +177,7 @@ export default class Recruitee extends HttpClient {
 
   getCandidateSalutation(candidate: Candidate): string {
     const addressOverride = candidate.fields.find(
-      (field) => field.name == ADDRESS_FIELD_NAME,
+      (field) => field.name == this.getWorkflow(candidate).addressFieldName,
     );
 
     if (addressOverride && isSingleLineField(addressOverride)) {
@@ -171,10 +187,46 @@ export default class Recruitee extends HttpClient {
       }
     }
 
+    if (getMessages(this.getCandidateLocale(candidate)).addressByFullName) {
+      return candidate.name;
+    }
+
     const nameParts = candidate.name.split(" ");
     return nameParts[0];
   }
 
+  // The profile field wins over the locale configured for the offer
+  getCandidateLocale(candidate: Candidate): Locale {
+    const { localeFieldName } = this.getWorkflow(candidate);
+    const field = this.getProfileFieldByName(candidate, localeFieldName);
+
+    let value: string | undefined;
+    if (field && isDropdownField(field)) {
+      value = field.values[0]?.value;
+    } else if (field && isSingleLineField(field)) {
+      value = field.values[0]?.text;
+    }
+
+    if (value) {
+      const locale = value.trim().toLowerCase();
+      if (!isLocale(locale)) {
+        throw new RecruiteeError(
+          `${EmojiErrorCodes.MISSING_CANDIDATE_FIELD} Unbekannte Sprache "${value}" im Feld "${localeFieldName}". Möglich sind: ${
+            LOCALES.join(", ")
+          }.`,
+        );
+      }
+      return locale;
+    }
+
+    const placement = candidate.placements[0];
+    if (!placement) {
+      return DEFAULT_LOCALE;
+    }
+    return getOfferConfig(this.config, placement.offer_id).locale ??
+      DEFAULT_LOCALE;
+  }
+
   async sendMailToCandidate(
     // deno-lint-ignore camelcase
     candidate_id: number,
@@ -182,16 +234,77 @@ export default class Recruitee extends HttpClient {
     candidate_email: string,
     cc: string[],
     sendHomeworkTemplateValues: SendHomeworkTemplateValues,
+    mailTemplate = "default",
+    locale: Locale = DEFAULT_LOCALE,
   ): Promise<void> {
-    const homeworkMailContent = sendHomeworkTemplate(
+    const homeworkMail = renderSendHomeworkMail(
+      this.mailTemplates,
+      locale,
+      mailTemplate,
       sendHomeworkTemplateValues,
     );
 
+    await this.sendMail(
+      candidate_id,
+      candidate_email,
+      cc,
+      getMessages(locale).sendHomeworkSubject,
+      homeworkMail.html,
+    );
+  }
+
+  async sendReminderMailToCandidate(
+    // deno-lint-ignore camelcase
+    candidate_id: number,
+    // deno-lint-ignore camelcase
+    candidate_email: string,
+    cc: string[],
+    homeworkReminderTemplateValues: HomeworkReminderTemplateValues,
+    locale: Locale = DEFAULT_LOCALE,
+  ): Promise<void> {
+    const messages = getMessages(locale);
+    await this.sendMail(
+      candidate_id,
+      candidate_email,
+      cc,
+      messages.homeworkReminderSubject,
+      messages.homeworkReminderTemplate(homeworkReminderTemplateValues),
+    );
+  }
+
+  async sendExtensionMailToCandidate(
+    // deno-lint-ignore camelcase
+    candidate_id: number,
+    // deno-lint-ignore camelcase
+    candidate_email: string,
+    cc: string[],
+    homeworkExtensionTemplateValues: HomeworkExtensionTemplateValues,
+    locale: Locale = DEFAULT_LOCALE,
+  ): Promise<void> {
+    const messages = getMessages(locale);
+    await this.sendMail(
+      candidate_id,
+      candidate_email,
+      cc,
+      messages.homeworkExtensionSubject,
+      messages.homeworkExtensionTemplate(homeworkExtensionTemplateValues),
+    );
+  }
+
+  private async sendMail(
+    // deno-lint-ignore camelcase
+    candidate_id: number,
+    // deno-lint-ignore camelcase
+    candidate_email: string,
+    cc: string[],
+    subject: string,
+    bodyHtml: string,
+  ): Promise<void> {
     const body = {
       // deno-lint-ignore camelcase
-      body_html: homeworkMailContent,
+      body_html: bodyHtml,
       cc,
-      subject: sendHomeworkSubject,
+      subject,
       to: [
         {
           candidate_id,
@@ -227,9 +340,7 @@ export default class Recruitee extends HttpClient {
 
     if (field.id !== null) {
       await this.makeRequest<never, UpdateProfileFieldSingleLineBody>(
-        `/custom_fields/candidates/${candidate.id.toString()}/fields/${
-          field.id?.toString()
-        }`,
+        `/custom_fields/candidates/${candidate.id.toString()}/fields/${field.id?.toString()}`,
         { method: "PATCH", body },
       );
     } else {
@@ -240,7 +351,7 @@ export default class Recruitee extends HttpClient {
     }
   }
 
-  async addTagToCandidate(candidate: Candidate, tag: Tag) {
+  async addTagToCandidate(candidate: Candidate, tag: string) {
     await this.makeRequest<never, AddTagToCandidateBody>(
       `/candidates/${candidate.id.toString()}/tags`,
       { method: "POST", body: { tag } },
@@ -268,9 +379,7 @@ export default class Recruitee extends HttpClient {
 
     if (field.id !== null) {
       await this.makeRequest<never, UpdateProfileFieldDropdownBody>(
-        `/custom_fields/candidates/${candidate.id.toString()}/fields/${
-          field.id?.toString()
-        }`,
+        `/custom_fields/candidates/${candidate.id.toString()}/fields/${field.id?.toString()}`,
         { method: "PATCH", body },
       );
     } else {
@@ -323,22 +432,20 @@ export default class Recruitee extends HttpClient {
 
   getSignature(candidate: Candidate): string {
     const signatureOverride = candidate.fields.find(
-      (field) => field.name == SIGNATURE_FIELD_NAME,
+      (field) => field.name == this.getWorkflow(candidate).signatureFieldName,
     );
 
-    if (signatureOverride && isSingleLineField(signatureOverride)) {
-      const override = signatureOverride.values.map((value) => value.text);
-      if (override.length > 0) {
-        return this.buildSignatureFromNames(override);
-      }
-    }
+    const names = signatureOverride && isSingleLineField(signatureOverride)
+      ? signatureOverride.values.map((value) => value.text)
+      : [];
 
-    return DEFAULT_SIGNATURE;
+    return getMessages(this.getCandidateLocale(candidate)).signature(names);
   }
 
   shouldSendMail(candidate: Candidate): boolean {
     const field = candidate.fields.find(
-      (field) => field.name === SHOULD_SEND_MAIL_FIELD_NAME,
+      (field) =>
+        field.name === this.getWorkflow(candidate).shouldSendMailFieldName,
     );
     if (field && isBooleanField(field) && field.values.length > 0) {
       return field.values[0].flag;
@@ -408,8 +515,18 @@ export default class Recruitee extends HttpClient {
     return matchedStage;
   }
 
+  async isBotTargetCandidate(candidate: Candidate): Promise<boolean> {
+    const offers = await this.getOffersWithTag(getOfferBotTag(this.config));
+
+    return candidate.placements.some(
+      (placement) =>
+        !placement.disqualify_reason &&
+        offers.some((offer) => offer.id === placement.offer_id),
+    );
+  }
+
   public async getAllQualifiedCandidates(): Promise<Candidate[]> {
-    const offers = await this.getOffersWithTag(OFFER_BOT_TAG);
+    const offers = await this.getOffersWithTag(getOfferBotTag(this.config));
 
     const candidates = await this.getAllCandidatesForOffers(offers);
 
@@ -418,21 +535,14 @@ export default class Recruitee extends HttpClient {
     );
   }
 
+  public getWorkflow(candidate: Candidate): WorkflowConfig {
+    return getWorkflowConfig(this.config, candidate.placements[0]?.offer_id);
+  }
+
   public getProfileFieldByName(
     candidate: Candidate,
     name: string,
   ): CandidateField | undefined {
     return candidate.fields.find((field) => field.name === name);
   }
-
-  private buildSignatureFromNames(names: string[]): string {
-    if (names.length > 1) {
-      const sorted = names.sort();
-      const last = sorted.pop();
-      const remaining = sorted.join(", ");
-
-      return `${remaining} und ${last} von den sipgate hacking talents`;
-    }
-    return `${names[0]} von den sipgate hacking talents`;
-  }
 }
@@ -82,8 +82,6 @@ export type TaskDetails = {
   task: Task;
 };
 
-export type Tag = "Bot-Fehler aufgetreten" | "Bot-Test";
-
 export type PipelineTemplate = {
   stages: StageDetail[];
 };
@@ -98,6 +96,7 @@ export type CreateCandidateTaskBody = {
     title: string;
     candidate_id: number;
     admin_ids?: string[];
+    due_date?: string;
   };
 };
 
@@ -132,5 +131,19 @@ export type UpdateProfileFieldDropdownBody = {
 };
 
 export type AddTagToCandidateBody = {
-  tag: Tag;
+  tag: string;
+};
+
+export type WebhookEventType =
+  | "task_created"
+  | "candidate_moved"
+  | "candidate_profile_field_updated";
+
+export type WebhookEvent = {
+  id: number;
+  attempt_count: number;
+  payload: {
+    event_type: WebhookEventType | string;
+    candidate?: MinimalCandidate;
+  };
 };
@@ -0,0 +1,70 @@
+import {
+  assertEquals,
+  assertThrowsAsync,
+} from "https://deno.land/std@0.100.0/testing/asserts.ts";
+import JsonFileStore from "./jsonfile.ts";
+
+async function withStoreFile(testFunction: (path: string) => Promise<void>) {
+  const directory = await Deno.makeTempDir();
+  try {
+    await testFunction(`${directory}/state.json`);
+  } finally {
+    await Deno.remove(directory, { recursive: true });
+  }
+}
+
+Deno.test("JsonFileStore returns undefined for unknown keys", async () => {
+  await withStoreFile(async (path) => {
+    const store = new JsonFileStore(path);
+    assertEquals(await store.get("collection", "key"), undefined);
+    assertEquals(await store.values("collection"), []);
+  });
+});
+
+Deno.test("JsonFileStore persists values across instances", async () => {
+  await withStoreFile(async (path) => {
+    await new JsonFileStore(path).set("collection", "key", { forked: true });
+
+    const store = new JsonFileStore(path);
+    assertEquals(await store.get("collection", "key"), { forked: true });
+    assertEquals(await store.values("collection"), [{ forked: true }]);
+  });
+});
+
+Deno.test("JsonFileStore handles concurrent writes", async () => {
+  await withStoreFile(async (path) => {
+    const store = new JsonFileStore(path);
+    await Promise.all(
+      [1, 2, 3].map((value) => store.set("collection", `${value}`, value)),
+    );
+
+    assertEquals(await new JsonFileStore(path).values("collection"), [1, 2, 3]);
+  });
+});
+
+Deno.test("JsonFileStore deletes values", async () => {
+  await withStoreFile(async (path) => {
+    const store = new JsonFileStore(path);
+    await store.set("collection", "key", "value");
+    await store.delete("collection", "key");
+
+    assertEquals(
+      await new JsonFileStore(path).get("collection", "key"),
+      undefined,
+    );
+  });
+});
+
+Deno.test("JsonFileStore writes again after a failed write", async () => {
+  await withStoreFile(async (path) => {
+    const store = new JsonFileStore(path);
+    // The temporary file cannot be written while a directory is in its place
+    await Deno.mkdir(`${path}.tmp`);
+    await assertThrowsAsync(() => store.set("collection", "first", 1));
+    await Deno.remove(`${path}.tmp`);
+
+    await store.set("collection", "second", 2);
+
+    assertEquals(await new JsonFileStore(path).values("collection"), [1, 2]);
+  });
+});
@@ -0,0 +1,70 @@
+import Store from "./store.ts";
+
+type StoreContent = Record<string, Record<string, unknown>>;
+
+export default class JsonFileStore implements Store {
+  private path: string;
+  private content?: Promise<StoreContent>;
+  private pendingWrite: Promise<void> = Promise.resolve();
+
+  constructor(path: string) {
+    this.path = path;
+  }
+
+  async get<T>(collection: string, key: string): Promise<T | undefined> {
+    const content = await this.load();
+    return content[collection]?.[key] as T | undefined;
+  }
+
+  async set<T>(collection: string, key: string, value: T): Promise<void> {
+    const content = await this.load();
+    content[collection] = { ...content[collection], [key]: value };
+    await this.persist();
+  }
+
+  async delete(collection: string, key: string): Promise<void> {
+    const content = await this.load();
+    if (content[collection]) {
+      delete content[collection][key];
+      await this.persist();
+    }
+  }
+
+  async values<T>(collection: string): Promise<T[]> {
+    const content = await this.load();
+    return Object.values(content[collection] ?? {}) as T[];
+  }
+
+  private load(): Promise<StoreContent> {
+    if (!this.content) {
+      this.content = this.readContent();
+    }
+    return this.content;
+  }
+
+  private async readContent(): Promise<StoreContent> {
+    try {
+      return JSON.parse(await Deno.readTextFile(this.path));
+    } catch (error) {
+      if (error instanceof Deno.errors.NotFound) {
+        return {};
+      }
+      throw error;
+    }
+  }
+
+  // Writes go to a temporary file first, so a crash never leaves a half-written store behind
+  // A failed write is reported to its caller only, the next one is tried anyway.
+  private persist(): Promise<void> {
+    const write = this.pendingWrite.then(async () => {
+      const temporaryPath = `${this.path}.tmp`;
+      await Deno.writeTextFile(
+        temporaryPath,
+        JSON.stringify(await this.content, null, 2),
+      );
+      await Deno.rename(temporaryPath, this.path);
+    });
+    this.pendingWrite = write.catch(() => {});
+    return write;
+  }
+}
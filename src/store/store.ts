@@ -0,0 +1,6 @@
+export default interface Store {
+  get<T>(collection: string, key: string): Promise<T | undefined>;
+  set<T>(collection: string, key: string, value: T): Promise<void>;
+  delete(collection: string, key: string): Promise<void>;
+  values<T>(collection: string): Promise<T[]>;
+}
@@ -1,5 +1,14 @@
 import { assertEquals } from "https://deno.land/std@0.100.0/testing/asserts.ts";
-import { addDaysToDate, dateToISO, sanitizeRepositoryName } from "./tools.ts";
+import {
+  addDaysToDate,
+  dateToISO,
+  daysBetween,
+  endOfDay,
+  getEnvironment,
+  isValidTimezone,
+  parseISODate,
+  sanitizeRepositoryName,
+} from "./tools.ts";
 
 Deno.test("addDaysToDate correctly adds given number of days", () => {
   const actual = addDaysToDate(new Date("2018-05-13"), 2);
@@ -21,6 +30,79 @@ Deno.test("dateToISO correctly converts date from Date", () => {
   assertEquals(actual, "2018-05-13");
 });
 
+Deno.test("daysBetween counts calendar days between two dates", () => {
+  assertEquals(
+    daysBetween(
+      new Date("2018-05-13T23:00:00Z"),
+      new Date("2018-05-15"),
+      "UTC",
+    ),
+    2,
+  );
+  assertEquals(daysBetween(new Date("2018-05-15"), new Date("2018-05-13")), -2);
+  assertEquals(daysBetween(new Date("2018-12-31"), new Date("2019-01-01")), 1);
+});
+
+Deno.test("daysBetween counts the days in Berlin by default", () => {
+  // 23:00 UTC is already the next day in Berlin
+  assertEquals(
+    daysBetween(new Date("2018-05-13T23:00:00Z"), new Date("2018-05-15")),
+    1,
+  );
+});
+
+Deno.test("dateToISO takes the date in the time zone", () => {
+  const lateEvening = new Date("2021-12-23T23:30:00Z");
+
+  assertEquals(dateToISO(lateEvening), "2021-12-24");
+  assertEquals(dateToISO(lateEvening, "UTC"), "2021-12-23");
+  assertEquals(dateToISO(lateEvening, "America/New_York"), "2021-12-23");
+});
+
+Deno.test("addDaysToDate keeps the time of day across DST transitions", () => {
+  // 23:30 in Berlin before the clocks go forward on 2021-03-28
+  assertEquals(
+    addDaysToDate(new Date("2021-03-27T22:30:00Z"), 1).toISOString(),
+    "2021-03-28T21:30:00.000Z",
+  );
+  // 23:30 in Berlin before the clocks go back on 2021-10-31
+  assertEquals(
+    addDaysToDate(new Date("2021-10-30T21:30:00Z"), 1).toISOString(),
+    "2021-10-31T22:30:00.000Z",
+  );
+  assertEquals(
+    dateToISO(addDaysToDate(new Date("2021-03-20T22:30:00Z"), 8)),
+    "2021-03-28",
+  );
+});
+
+Deno.test("endOfDay is the last millisecond of the day in the time zone", () => {
+  assertEquals(
+    endOfDay(new Date("2021-12-24T10:00:00Z")).toISOString(),
+    "2021-12-24T22:59:59.999Z",
+  );
+  assertEquals(
+    endOfDay(new Date("2021-03-28T10:00:00Z")).toISOString(),
+    "2021-03-28T21:59:59.999Z",
+  );
+  assertEquals(
+    endOfDay(new Date("2021-10-31T10:00:00Z")).toISOString(),
+    "2021-10-31T22:59:59.999Z",
+  );
+});
+
+Deno.test("parseISODate reads a date as the end of that day", () => {
+  const dueDate = parseISODate("2021-07-01");
+
+  assertEquals(dueDate.toISOString(), "2021-07-01T21:59:59.999Z");
+  assertEquals(dateToISO(dueDate), "2021-07-01");
+});
+
+Deno.test("isValidTimezone accepts IANA time zones only", () => {
+  assertEquals(isValidTimezone("Europe/Berlin"), true);
+  assertEquals(isValidTimezone("Mars/Olympus_Mons"), false);
+});
+
 Deno.test("sanitizeRepositoryName correctly sanatizes a repository name", () => {
   assertEquals(
     sanitizeRepositoryName("homework-someUser-rand"),
@@ -39,3 +121,16 @@ Deno.test("sanitizeRepositoryName correctly sanatizes a repository name", () =>
     "homework-someUser-rand",
   );
 });
+
+Deno.test("getEnvironment leaves out empty variables", () => {
+  Deno.env.set("GITLAB_WEBHOOK_SCOPE", "");
+  Deno.env.set("STATE_FILE", "./state.json");
+  try {
+    const environment = getEnvironment();
+    assertEquals(environment.GITLAB_WEBHOOK_SCOPE, undefined);
+    assertEquals(environment.STATE_FILE, "./state.json");
+  } finally {
+    Deno.env.delete("GITLAB_WEBHOOK_SCOPE");
+    Deno.env.delete("STATE_FILE");
+  }
+});
@@ -1,15 +1,140 @@
 const MILLISECONDS_IN_A_DAY = 86400000;
 
-export function addDaysToDate(fromDate: Date, days: number) {
-  const fromUTC = fromDate.getTime();
+export const DEFAULT_TIMEZONE = "Europe/Berlin";
 
-  const daysInMs = MILLISECONDS_IN_A_DAY * days;
+// Calendar dates (due dates, access expiry, days left) are taken in this time zone, not in the one of the server
+export function getTimezone(): string {
+  return Deno.env.get("TIMEZONE") || DEFAULT_TIMEZONE;
+}
+
+// Empty variables, e.g. copied from .env.example, count as unset, so the defaults apply
+export function getEnvironment(): Record<string, string> {
+  return Object.fromEntries(
+    Object.entries(Deno.env.toObject()).filter(([, value]) => value !== ""),
+  );
+}
+
+export function isValidTimezone(timeZone: string): boolean {
+  try {
+    new Intl.DateTimeFormat("en-US", { timeZone });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+type ZonedDateParts = {
+  year: number;
+  month: number;
+  day: number;
+  hour: number;
+  minute: number;
+  second: number;
+};
 
-  return new Date(fromUTC + daysInMs);
+function getZonedDateParts(date: Date, timeZone: string): ZonedDateParts {
+  const parts = new Intl.DateTimeFormat("en-US", {
+    timeZone,
+    hourCycle: "h23",
+    year: "numeric",
+    month: "numeric",
+    day: "numeric",
+    hour: "numeric",
+    minute: "numeric",
+    second: "numeric",
+  }).formatToParts(date);
+  const part = (type: Intl.DateTimeFormatPartTypes) =>
+    Number(parts.find((part) => part.type === type)!.value);
+
+  return {
+    year: part("year"),
+    month: part("month"),
+    day: part("day"),
+    hour: part("hour"),
+    minute: part("minute"),
+    second: part("second"),
+  };
+}
+
+// The instant at which the clocks in the time zone show the given wall time. Overflowing days roll over like in Date.UTC.
+function zonedWallTimeToDate(
+  { year, month, day, hour, minute, second }: ZonedDateParts,
+  milliseconds: number,
+  timeZone: string,
+): Date {
+  const wallTime = Date.UTC(year, month - 1, day, hour, minute, second) +
+    milliseconds;
+  const offsetAt = (time: number) => {
+    const parts = getZonedDateParts(new Date(time), timeZone);
+    const zoned = Date.UTC(
+      parts.year,
+      parts.month - 1,
+      parts.day,
+      parts.hour,
+      parts.minute,
+      parts.second,
+    );
+    return zoned - Math.floor(time / 1000) * 1000;
+  };
+
+  // The offset at the wall time may differ from the one at the result around a DST transition, so check twice
+  const firstGuess = wallTime - offsetAt(wallTime);
+  return new Date(wallTime - offsetAt(firstGuess));
 }
 
-export function dateToISO(date: Date): string {
-  return date.toISOString().slice(0, 10);
+// Adds calendar days, keeping the time of day in the time zone across DST transitions
+export function addDaysToDate(
+  fromDate: Date,
+  days: number,
+  timeZone = getTimezone(),
+) {
+  const parts = getZonedDateParts(fromDate, timeZone);
+
+  return zonedWallTimeToDate(
+    { ...parts, day: parts.day + days },
+    fromDate.getUTCMilliseconds(),
+    timeZone,
+  );
+}
+
+export function dateToISO(date: Date, timeZone = getTimezone()): string {
+  const { year, month, day } = getZonedDateParts(date, timeZone);
+  const pad = (value: number) => String(value).padStart(2, "0");
+
+  return `${String(year).padStart(4, "0")}-${pad(month)}-${pad(day)}`;
+}
+
+// The last millisecond of the day of the date in the time zone
+export function endOfDay(date: Date, timeZone = getTimezone()): Date {
+  const parts = getZonedDateParts(date, timeZone);
+
+  return zonedWallTimeToDate(
+    { ...parts, hour: 23, minute: 59, second: 59 },
+    999,
+    timeZone,
+  );
+}
+
+// Reads a date like "2021-12-24" as the end of that day in the time zone
+export function parseISODate(isoDate: string, timeZone = getTimezone()): Date {
+  const [year, month, day] = isoDate.slice(0, 10).split("-").map(Number);
+
+  return zonedWallTimeToDate(
+    { year, month, day, hour: 23, minute: 59, second: 59 },
+    999,
+    timeZone,
+  );
+}
+
+export function daysBetween(
+  fromDate: Date,
+  toDate: Date,
+  timeZone = getTimezone(),
+): number {
+  const from = new Date(dateToISO(fromDate, timeZone)).getTime();
+  const to = new Date(dateToISO(toDate, timeZone)).getTime();
+
+  return Math.round((to - from) / MILLISECONDS_IN_A_DAY);
 }
 
 export function sleep(seconds: number): Promise<void> {
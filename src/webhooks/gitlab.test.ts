@@ -0,0 +1,91 @@
+import { assertEquals } from "https://deno.land/std@0.100.0/testing/asserts.ts";
+import { CandidateStep } from "../bot/types.ts";
+import GitlabWebhookHandler, {
+  GITLAB_EVENT_HEADER,
+  GITLAB_TOKEN_HEADER,
+} from "./gitlab.ts";
+
+const TOKEN = "webhookToken";
+const BOT_USER_ID = 42;
+const PROJECT_URL = "https://gitlab.com/homeworks/homework-user-123";
+
+class MockBot {
+  calls: { projectUrl: string; steps: CandidateStep[] }[] = [];
+
+  runForHomeworkProject(projectUrl: string, steps: CandidateStep[]) {
+    this.calls.push({ projectUrl, steps });
+    return Promise.resolve();
+  }
+}
+
+function issueEvent(action: string, authorId = BOT_USER_ID, token = TOKEN) {
+  return new Request("http://localhost/webhooks/gitlab", {
+    method: "POST",
+    headers: {
+      [GITLAB_TOKEN_HEADER]: token,
+      [GITLAB_EVENT_HEADER]: "Issue Hook",
+    },
+    body: JSON.stringify({
+      object_kind: "issue",
+      project: { id: 1, web_url: PROJECT_URL },
+      object_attributes: {
+        iid: 1,
+        author_id: authorId,
+        state: action === "close" ? "closed" : "opened",
+        action,
+      },
+    }),
+  });
+}
+
+Deno.test("gitlab webhook with invalid token is rejected", async () => {
+  const bot = new MockBot();
+  const handler = new GitlabWebhookHandler(TOKEN, BOT_USER_ID, bot);
+
+  const response = await handler.handle(
+    issueEvent("close", BOT_USER_ID, "wrongToken"),
+  );
+
+  assertEquals(response.status, 401);
+  assertEquals(bot.calls.length, 0);
+});
+
+Deno.test("closing a bot issue checks the submission", async () => {
+  const bot = new MockBot();
+  const handler = new GitlabWebhookHandler(TOKEN, BOT_USER_ID, bot);
+
+  const response = await handler.handle(issueEvent("close"));
+
+  assertEquals(response.status, 202);
+  assertEquals(bot.calls, [
+    { projectUrl: PROJECT_URL, steps: ["checkSubmission"] },
+  ]);
+});
+
+Deno.test("reopening a bot issue checks the submission", async () => {
+  const bot = new MockBot();
+  const handler = new GitlabWebhookHandler(TOKEN, BOT_USER_ID, bot);
+
+  await handler.handle(issueEvent("reopen"));
+
+  assertEquals(bot.calls.length, 1);
+});
+
+Deno.test("issues not created by the bot are ignored", async () => {
+  const bot = new MockBot();
+  const handler = new GitlabWebhookHandler(TOKEN, BOT_USER_ID, bot);
+
+  const response = await handler.handle(issueEvent("close", 1));
+
+  assertEquals(response.status, 200);
+  assertEquals(bot.calls.length, 0);
+});
+
+Deno.test("other issue actions are ignored", async () => {
+  const bot = new MockBot();
+  const handler = new GitlabWebhookHandler(TOKEN, BOT_USER_ID, bot);
+
+  await handler.handle(issueEvent("update"));
+
+  assertEquals(bot.calls.length, 0);
+});
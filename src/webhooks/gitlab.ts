@@ -0,0 +1,63 @@
+import Bot from "../bot/bot.ts";
+import { IssueWebhookEvent } from "../gitlab/types.ts";
+import { timingSafeEqual } from "./signature.ts";
+
+export const GITLAB_TOKEN_HEADER = "X-Gitlab-Token";
+export const GITLAB_EVENT_HEADER = "X-Gitlab-Event";
+
+const ISSUE_HOOK_EVENT = "Issue Hook";
+const HANDLED_ISSUE_ACTIONS = ["close", "reopen"];
+
+export default class GitlabWebhookHandler {
+  private token: string;
+  private botUserId: number;
+  private bot: Pick<Bot, "runForHomeworkProject">;
+
+  constructor(
+    token: string,
+    botUserId: number,
+    bot: Pick<Bot, "runForHomeworkProject">,
+  ) {
+    this.token = token;
+    this.botUserId = botUserId;
+    this.bot = bot;
+  }
+
+  async handle(request: Request): Promise<Response> {
+    const token = request.headers.get(GITLAB_TOKEN_HEADER);
+    if (!token || !timingSafeEqual(token, this.token)) {
+      console.warn("[Webhooks] Rejected GitLab webhook with bad token");
+      return new Response("Invalid token", { status: 401 });
+    }
+
+    if (request.headers.get(GITLAB_EVENT_HEADER) !== ISSUE_HOOK_EVENT) {
+      return new Response("Ignored", { status: 200 });
+    }
+
+    let event: IssueWebhookEvent;
+    try {
+      event = await request.json();
+    } catch {
+      return new Response("Invalid payload", { status: 400 });
+    }
+
+    const issue = event.object_attributes;
+    if (
+      !issue || issue.author_id !== this.botUserId ||
+      !HANDLED_ISSUE_ACTIONS.includes(issue.action ?? "")
+    ) {
+      return new Response("Ignored", { status: 200 });
+    }
+
+    console.log(
+      `[Webhooks] Received GitLab issue event "${issue.action}" for project ${event.project.web_url}`,
+    );
+
+    // GitLab expects a fast answer, so the project is processed in the background
+    this.bot
+      .runForHomeworkProject(event.project.web_url, ["checkSubmission"])
+      .catch(console.warn);
+
+    return new Response("Accepted", { status: 202 });
+  }
+}
@@ -0,0 +1,118 @@
+import { assertEquals } from "https://deno.land/std@0.100.0/testing/asserts.ts";
+import { CandidateStep } from "../bot/types.ts";
+import RecruiteeWebhookHandler, {
+  RECRUITEE_SIGNATURE_HEADER,
+} from "./recruitee.ts";
+import {
+  createHmacSha256Signature,
+  verifyHmacSha256Signature,
+} from "./signature.ts";
+
+const SECRET = "webhookSecret";
+
+class MockBot {
+  calls: { candidateId: number; steps: CandidateStep[] }[] = [];
+
+  runForCandidate(candidateId: number, steps: CandidateStep[]) {
+    this.calls.push({ candidateId, steps });
+    return Promise.resolve();
+  }
+}
+
+async function webhookRequest(
+  body: unknown,
+  secret = SECRET,
+): Promise<Request> {
+  const payload = JSON.stringify(body);
+  return new Request("http://localhost/webhooks/recruitee", {
+    method: "POST",
+    headers: {
+      [RECRUITEE_SIGNATURE_HEADER]: await createHmacSha256Signature(
+        secret,
+        payload,
+      ),
+    },
+    body: payload,
+  });
+}
+
+Deno.test("verifyHmacSha256Signature accepts matching signature", async () => {
+  const signature = await createHmacSha256Signature(SECRET, "payload");
+  assertEquals(
+    await verifyHmacSha256Signature(SECRET, "payload", signature),
+    true,
+  );
+});
+
+Deno.test("verifyHmacSha256Signature rejects malformed signature", async () => {
+  assertEquals(
+    await verifyHmacSha256Signature(SECRET, "payload", "not-hex"),
+    false,
+  );
+});
+
+Deno.test("webhook with invalid signature is rejected", async () => {
+  const bot = new MockBot();
+  const handler = new RecruiteeWebhookHandler(SECRET, bot);
+
+  const response = await handler.handle(
+    await webhookRequest(
+      { payload: { event_type: "task_created", candidate: { id: 1 } } },
+      "wrongSecret",
+    ),
+  );
+
+  assertEquals(response.status, 401);
+  assertEquals(bot.calls.length, 0);
+});
+
+Deno.test("task_created webhook runs homework steps for candidate", async () => {
+  const bot = new MockBot();
+  const handler = new RecruiteeWebhookHandler(SECRET, bot);
+
+  const response = await handler.handle(
+    await webhookRequest({
+      id: 1,
+      attempt_count: 1,
+      payload: { event_type: "task_created", candidate: { id: 42 } },
+    }),
+  );
+
+  assertEquals(response.status, 202);
+  assertEquals(bot.calls, [
+    { candidateId: 42, steps: ["sendHomework", "extendHomework"] },
+  ]);
+});
+
+Deno.test("candidate_moved webhook checks for submission and onboarding", async () => {
+  const bot = new MockBot();
+  const handler = new RecruiteeWebhookHandler(SECRET, bot);
+
+  await handler.handle(
+    await webhookRequest({
+      id: 1,
+      attempt_count: 1,
+      payload: { event_type: "candidate_moved", candidate: { id: 42 } },
+    }),
+  );
+
+  assertEquals(bot.calls, [
+    { candidateId: 42, steps: ["checkSubmission", "onboard"] },
+  ]);
+});
+
+Deno.test("unknown webhook event is ignored", async () => {
+  const bot = new MockBot();
+  const handler = new RecruiteeWebhookHandler(SECRET, bot);
+
+  const response = await handler.handle(
+    await webhookRequest({
+      id: 1,
+      attempt_count: 1,
+      payload: { event_type: "offer_created" },
+    }),
+  );
+
+  assertEquals(response.status, 200);
+  assertEquals(bot.calls.length, 0);
+});
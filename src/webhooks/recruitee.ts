@@ -0,0 +1,60 @@
+// deno-lint-ignore-file camelcase
+import Bot from "../bot/bot.ts";
+import { CandidateStep } from "../bot/types.ts";
+import { WebhookEvent, WebhookEventType } from "../recruitee/types.ts";
+import { verifyHmacSha256Signature } from "./signature.ts";
+
+export const RECRUITEE_SIGNATURE_HEADER = "X-Recruitee-Signature";
+
+const STEPS_BY_EVENT_TYPE: Record<WebhookEventType, CandidateStep[]> = {
+  task_created: ["sendHomework", "extendHomework"],
+  candidate_moved: ["checkSubmission", "onboard"],
+  candidate_profile_field_updated: ["sendHomework"],
+};
+
+export default class RecruiteeWebhookHandler {
+  private secret: string;
+  private bot: Pick<Bot, "runForCandidate">;
+
+  constructor(secret: string, bot: Pick<Bot, "runForCandidate">) {
+    this.secret = secret;
+    this.bot = bot;
+  }
+
+  async handle(request: Request): Promise<Response> {
+    const payload = await request.text();
+    const signature = request.headers.get(RECRUITEE_SIGNATURE_HEADER);
+
+    if (
+      !signature ||
+      !(await verifyHmacSha256Signature(this.secret, payload, signature))
+    ) {
+      console.warn("[Webhooks] Rejected Recruitee webhook with bad signature");
+      return new Response("Invalid signature", { status: 401 });
+    }
+
+    let event: WebhookEvent;
+    try {
+      event = JSON.parse(payload);
+    } catch {
+      return new Response("Invalid payload", { status: 400 });
+    }
+
+    const eventType = event.payload?.event_type as WebhookEventType;
+    const steps = STEPS_BY_EVENT_TYPE[eventType];
+    const candidateId = event.payload?.candidate?.id;
+
+    if (!steps || candidateId === undefined) {
+      return new Response("Ignored", { status: 200 });
+    }
+
+    console.log(
+      `[Webhooks] Received Recruitee event "${eventType}" for candidate with id ${candidateId}`,
+    );
+
+    // Recruitee expects a fast answer, so the candidate is processed in the background
+    this.bot.runForCandidate(candidateId, steps).catch(console.warn);
+
+    return new Response("Accepted", { status: 202 });
+  }
+}
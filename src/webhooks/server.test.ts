@@ -0,0 +1,53 @@
+import { assertEquals } from "https://deno.land/std@0.100.0/testing/asserts.ts";
+import WebhookServer from "./server.ts";
+
+const WEBHOOK_PORT = 18080;
+
+function webhookServer() {
+  const server = new WebhookServer(WEBHOOK_PORT);
+  server.addRoute("/webhooks/test", async (request) => {
+    return new Response(await request.text(), { status: 202 });
+  });
+  return server;
+}
+
+Deno.test("webhook server routes requests to the registered handler", async () => {
+  const response = await webhookServer().handle(
+    new Request("http://localhost/webhooks/test", {
+      method: "POST",
+      body: "payload",
+    }),
+  );
+
+  assertEquals(response.status, 202);
+  assertEquals(await response.text(), "payload");
+});
+
+Deno.test("webhook server answers unknown routes with 404", async () => {
+  const response = await webhookServer().handle(
+    new Request("http://localhost/unknown", { method: "POST" }),
+  );
+
+  assertEquals(response.status, 404);
+});
+
+Deno.test("webhook server only accepts POST requests", async () => {
+  const response = await webhookServer().handle(
+    new Request("http://localhost/webhooks/test"),
+  );
+
+  assertEquals(response.status, 405);
+});
+
+Deno.test("webhook server answers handler errors with 500", async () => {
+  const server = new WebhookServer(WEBHOOK_PORT);
+  server.addRoute("/webhooks/test", () => {
+    throw new Error("handler failed");
+  });
+
+  const response = await server.handle(
+    new Request("http://localhost/webhooks/test", { method: "POST" }),
+  );
+
+  assertEquals(response.status, 500);
+});
@@ -0,0 +1,42 @@
+export type WebhookHandler = (request: Request) => Promise<Response>;
+
+export default class WebhookServer {
+  private port: number;
+  private routes = new Map<string, WebhookHandler>();
+
+  constructor(port: number) {
+    this.port = port;
+  }
+
+  addRoute(path: string, handler: WebhookHandler) {
+    this.routes.set(path, handler);
+  }
+
+  async handle(request: Request): Promise<Response> {
+    const { pathname } = new URL(request.url);
+    const handler = this.routes.get(pathname);
+
+    if (!handler) {
+      return new Response("Not Found", { status: 404 });
+    }
+    if (request.method !== "POST") {
+      return new Response("Method Not Allowed", { status: 405 });
+    }
+
+    try {
+      return await handler(request);
+    } catch (error) {
+      console.warn(`[Webhooks] Failed to handle request to ${pathname}`, error);
+      return new Response("Internal Server Error", { status: 500 });
+    }
+  }
+
+  async listen() {
+    const server = Deno.serve({
+      port: this.port,
+      onListen: () => console.log(`[Webhooks] Listening on port ${this.port}`),
+    }, (request) => this.handle(request));
+
+    await server.finished;
+  }
+}
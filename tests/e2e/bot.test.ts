@@ -1,9 +1,4 @@
-import {
-  GITLAB_REPO_FIELD_NAME,
-  GITLAB_USERNAME_FIELD_NAME,
-  HOMEWORK_FIELD_NAME,
-  TASK_ASSIGN_MK_TEXT,
-} from "../../src/bot/bot.ts";
+import { DEFAULT_WORKFLOW_CONFIG } from "../../src/config/workflow.ts";
 import {
   assertExists,
   assertNotEquals,
@@ -28,6 +23,8 @@ import {
 import { GitlabProject } from "../../src/gitlab/types.ts";
 import Bot from "../../src/bot/bot.ts";
 import Monitorer from "../../src/monitoring/monitorer.ts";
+import JsonFileStore from "../../src/store/jsonfile.ts";
+import Pipelines from "../../src/evaluation/pipelines.ts";
 
 const E2E_CANDIDATE_TAG = "Bot-E2E-Test";
 
@@ -60,11 +57,16 @@ describe("End-to-end test for HT-Bewerbungsbot", () => {
   const recruitee = new Recruitee(COMPANY_ID, RECRUITEE_TOKEN);
 
   const mockMonitorer = new MockMonitorer();
+  const store = new JsonFileStore(`${Deno.makeTempDirSync()}/state.json`);
 
   const bot = new Bot(
     gitlab,
     recruitee,
     mockMonitorer,
+    store,
+    {},
+    null,
+    new Pipelines(Gitlab.API_BASE_URL, GITLAB_TOKEN),
     false,
     E2E_CANDIDATE_TAG,
   );
@@ -111,7 +113,9 @@ describe("End-to-end test for HT-Bewerbungsbot", () => {
     await bot.poll();
 
     const tasks = await getTestCandidateTasks(recruitee, candidateId);
-    const mkTask = tasks.find((t) => t.title == TASK_ASSIGN_MK_TEXT);
+    const mkTask = tasks.find((t) =>
+      t.title == DEFAULT_WORKFLOW_CONFIG.assignMkTaskTitle
+    );
     assertExists(mkTask);
   });
 });
@@ -122,7 +126,7 @@ function getGitlabRepoFieldValueOrThrow(
 ): string {
   const field = recruitee.getProfileFieldByName(
     candidate,
-    GITLAB_REPO_FIELD_NAME,
+    DEFAULT_WORKFLOW_CONFIG.gitlabRepoFieldName,
   );
 
   if (!field || !isSingleLineField(field)) {
@@ -140,7 +144,7 @@ function getGitlabUsernameFieldOrThrow(
 ): CandidateSingleLineField {
   const field = recruitee.getProfileFieldByName(
     candidate,
-    GITLAB_USERNAME_FIELD_NAME,
+    DEFAULT_WORKFLOW_CONFIG.gitlabUsernameFieldName,
   );
 
   if (!field || !isSingleLineField(field)) {
@@ -154,7 +158,10 @@ function getHomeworkFieldOrThrow(
   recruitee: Recruitee,
   candidate: Candidate,
 ): CandidateDropdownField {
-  const field = recruitee.getProfileFieldByName(candidate, HOMEWORK_FIELD_NAME);
+  const field = recruitee.getProfileFieldByName(
+    candidate,
+    DEFAULT_WORKFLOW_CONFIG.homeworkFieldName,
+  );
 
   if (!field || !isDropdownField(field)) {
     throw new Error("expected homework field to be a dropdown field");